@@ -0,0 +1,43 @@
+// Copies the face-api model weights the app uses into public/models and
+// writes manifest.json with the size and SHA-256 of every file, which the
+// app checks before loading. Run after upgrading @vladmandic/face-api.
+import { createHash } from 'node:crypto';
+import { copyFileSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, 'node_modules', '@vladmandic', 'face-api', 'model');
+const target = join(root, 'public', 'models');
+
+const MODELS = {
+    tinyFaceDetector: 'tiny_face_detector_model',
+    faceLandmark68TinyNet: 'face_landmark_68_tiny_model',
+    faceRecognitionNet: 'face_recognition_model',
+};
+
+mkdirSync(target, { recursive: true });
+
+const version = JSON.parse(readFileSync(join(root, 'node_modules', '@vladmandic', 'face-api', 'package.json'), 'utf8')).version;
+const manifest = { faceApiVersion: version, models: {} };
+
+for (const [net, prefix] of Object.entries(MODELS)) {
+    const weightsManifest = `${prefix}-weights_manifest.json`;
+    const shards = JSON.parse(readFileSync(join(source, weightsManifest), 'utf8')).flatMap((group) => group.paths);
+
+    manifest.models[net] = {
+        weightsManifest,
+        files: [weightsManifest, ...shards].map((file) => {
+            copyFileSync(join(source, file), join(target, file));
+            const data = readFileSync(join(target, file));
+            return {
+                path: file,
+                bytes: data.length,
+                sha256: createHash('sha256').update(data).digest('hex'),
+            };
+        }),
+    };
+}
+
+writeFileSync(join(target, 'manifest.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`Synced face-api ${version} models to public/models`);
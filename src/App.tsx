@@ -4,6 +4,11 @@ import { Dashboard } from './pages/Dashboard';
 import { People } from './pages/People';
 import { PersonDetail } from './pages/PersonDetail';
 import { ARViewer } from './pages/ARViewer';
+import { Visitors } from './pages/Visitors';
+import { DuplicatePeople } from './pages/DuplicatePeople';
+import { Evaluation } from './pages/Evaluation';
+import { Orientation } from './pages/Orientation';
+import { FamilyTree } from './pages/FamilyTree';
 import './index.css';
 
 function App() {
@@ -17,7 +22,12 @@ function App() {
         <Route element={<Layout />}>
           <Route path="/" element={<Dashboard />} />
           <Route path="/people" element={<People />} />
+          <Route path="/people/duplicates" element={<DuplicatePeople />} />
           <Route path="/people/:id" element={<PersonDetail />} />
+          <Route path="/visitors" element={<Visitors />} />
+          <Route path="/evaluation" element={<Evaluation />} />
+          <Route path="/orientation" element={<Orientation />} />
+          <Route path="/family" element={<FamilyTree />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -0,0 +1,405 @@
+import { useEffect, useState } from 'react';
+import {
+    RESOLUTIONS,
+    DETECTOR_INPUT_SIZES,
+    DEFAULT_AR_SETTINGS,
+    defaultDeviceName,
+    type ARSettings,
+    type CameraResolution
+} from '../../services/arSettings';
+import type { StereoSettings } from '../../services/stereoView';
+import type { KioskExitMethod } from '../../services/kiosk';
+import { OVERLAY_CARD_NAMES, type OverlayCardSettings } from '../../services/overlayCards';
+import { loadVoices, speak, speechAvailable, stopSpeaking, type SpeechSettings } from '../../services/announcements';
+import './ARSettingsPanel.css';
+
+interface ARSettingsPanelProps {
+    settings: ARSettings;
+    cameras: MediaDeviceInfo[];
+    onChange: (settings: ARSettings) => void;
+    onClose: () => void;
+    onStartKiosk: (exitMethod: KioskExitMethod, pin: string) => void;
+}
+
+export function ARSettingsPanel({ settings, cameras, onChange, onClose, onStartKiosk }: ARSettingsPanelProps) {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const [kioskExit, setKioskExit] = useState<KioskExitMethod>('pin');
+    const [kioskPin, setKioskPin] = useState('');
+    // Renaming the device restarts the visit log, so the name is applied once typing is done
+    const [deviceName, setDeviceName] = useState(settings.deviceName);
+
+    useEffect(() => {
+        loadVoices().then(setVoices);
+    }, []);
+
+    const update = (changes: Partial<ARSettings>) => onChange({ ...settings, ...changes });
+    const updateDetector = (changes: Partial<ARSettings['detector']>) =>
+        update({ detector: { ...settings.detector, ...changes } });
+    const updateSpeech = (changes: Partial<SpeechSettings>) =>
+        update({ speech: { ...settings.speech, ...changes } });
+    const updateStereo = (changes: Partial<StereoSettings>) =>
+        update({ stereo: { ...settings.stereo, ...changes } });
+    const updateCards = (changes: Partial<OverlayCardSettings>) =>
+        update({ cards: { ...settings.cards, ...changes } });
+
+    const toggleCard = (index: number, enabled: boolean) =>
+        updateCards({ order: settings.cards.order.map((card, i) => i === index ? { ...card, enabled } : card) });
+
+    const moveCard = (index: number, offset: number) => {
+        const order = [...settings.cards.order];
+        [order[index], order[index + offset]] = [order[index + offset], order[index]];
+        updateCards({ order });
+    };
+
+    const applyDeviceName = () => {
+        if (deviceName !== settings.deviceName) update({ deviceName });
+    };
+
+    const testVoice = () => {
+        stopSpeaking();
+        speak('This is how names will be announced.', settings.speech);
+    };
+
+    return (
+        <div className="ar-settings-panel" role="dialog" aria-label="AR settings">
+            <div className="ar-settings-header">
+                <h2>Settings</h2>
+                <button className="ar-settings-close" onClick={onClose} aria-label="Close settings">✕</button>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>Camera</h3>
+                <label className="ar-setting">
+                    <span>Camera</span>
+                    <select
+                        value={settings.cameraDeviceId}
+                        onChange={(e) => update({ cameraDeviceId: e.target.value })}
+                    >
+                        <option value="">Default (front camera)</option>
+                        {cameras.map((camera, index) => (
+                            <option key={camera.deviceId} value={camera.deviceId}>
+                                {camera.label || `Camera ${index + 1}`}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="ar-setting">
+                    <span>Resolution</span>
+                    <select
+                        value={settings.resolution}
+                        onChange={(e) => update({ resolution: e.target.value as CameraResolution })}
+                    >
+                        {Object.keys(RESOLUTIONS).map(resolution => (
+                            <option key={resolution} value={resolution}>{resolution}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="ar-setting checkbox">
+                    <input
+                        type="checkbox"
+                        checked={settings.mirror}
+                        onChange={(e) => update({ mirror: e.target.checked })}
+                    />
+                    <span>Mirror video</span>
+                </label>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>Recognition</h3>
+                <label className="ar-setting">
+                    <span>Detector input size</span>
+                    <select
+                        value={settings.detector.inputSize}
+                        onChange={(e) => updateDetector({ inputSize: Number(e.target.value) })}
+                    >
+                        {DETECTOR_INPUT_SIZES.map(size => (
+                            <option key={size} value={size}>
+                                {size}{size === DEFAULT_AR_SETTINGS.detector.inputSize ? ' (default)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="ar-setting">
+                    <span>Detection confidence: {Math.round(settings.detector.scoreThreshold * 100)}%</span>
+                    <input
+                        type="range"
+                        min={0.1}
+                        max={0.9}
+                        step={0.05}
+                        value={settings.detector.scoreThreshold}
+                        onChange={(e) => updateDetector({ scoreThreshold: parseFloat(e.target.value) })}
+                    />
+                </label>
+
+                <label className="ar-setting">
+                    <span>Match people by</span>
+                    <select
+                        value={settings.matchStrategy}
+                        onChange={(e) => update({ matchStrategy: e.target.value as ARSettings['matchStrategy'] })}
+                    >
+                        <option value="best">Closest photo (default)</option>
+                        <option value="centroid">Average of all photos</option>
+                    </select>
+                </label>
+
+                <label className="ar-setting">
+                    <span>Check every {settings.recognitionIntervalMs} ms</span>
+                    <input
+                        type="range"
+                        min={50}
+                        max={1000}
+                        step={50}
+                        value={settings.recognitionIntervalMs}
+                        onChange={(e) => update({ recognitionIntervalMs: Number(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>Person Cards</h3>
+                <ol className="ar-card-order">
+                    {settings.cards.order.map((card, index) => (
+                        <li key={card.kind}>
+                            <label className="ar-setting checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={card.enabled}
+                                    onChange={(e) => toggleCard(index, e.target.checked)}
+                                />
+                                <span>{OVERLAY_CARD_NAMES[card.kind]}</span>
+                            </label>
+                            <button
+                                onClick={() => moveCard(index, -1)}
+                                disabled={index === 0}
+                                aria-label={`Show ${OVERLAY_CARD_NAMES[card.kind]} earlier`}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                onClick={() => moveCard(index, 1)}
+                                disabled={index === settings.cards.order.length - 1}
+                                aria-label={`Show ${OVERLAY_CARD_NAMES[card.kind]} later`}
+                            >
+                                ↓
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+
+                <label className="ar-setting">
+                    <span>Recent conversations to show</span>
+                    <select
+                        value={settings.cards.conversationCount}
+                        onChange={(e) => updateCards({ conversationCount: Number(e.target.value) })}
+                    >
+                        {[1, 2, 3].map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                </label>
+
+                <label className="ar-setting">
+                    <span>Show each card for {settings.cards.secondsPerCard} s</span>
+                    <input
+                        type="range"
+                        min={3}
+                        max={30}
+                        step={1}
+                        value={settings.cards.secondsPerCard}
+                        onChange={(e) => updateCards({ secondsPerCard: Number(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            {speechAvailable() && (
+                <div className="ar-settings-group">
+                    <h3>Announcements</h3>
+                    <label className="ar-setting checkbox">
+                        <input
+                            type="checkbox"
+                            checked={settings.speech.quiet}
+                            onChange={(e) => updateSpeech({ quiet: e.target.checked })}
+                        />
+                        <span>Quiet mode (don't speak names)</span>
+                    </label>
+
+                    <label className="ar-setting">
+                        <span>Voice</span>
+                        <select
+                            value={settings.speech.voiceURI}
+                            onChange={(e) => updateSpeech({ voiceURI: e.target.value })}
+                        >
+                            <option value="">Default voice</option>
+                            {voices.map(voice => (
+                                <option key={voice.voiceURI} value={voice.voiceURI}>
+                                    {voice.name} ({voice.lang})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label className="ar-setting">
+                        <span>Speed: {settings.speech.rate.toFixed(1)}×</span>
+                        <input
+                            type="range"
+                            min={0.5}
+                            max={1.5}
+                            step={0.1}
+                            value={settings.speech.rate}
+                            onChange={(e) => updateSpeech({ rate: parseFloat(e.target.value) })}
+                        />
+                    </label>
+
+                    <label className="ar-setting">
+                        <span>Volume: {Math.round(settings.speech.volume * 100)}%</span>
+                        <input
+                            type="range"
+                            min={0.1}
+                            max={1}
+                            step={0.1}
+                            value={settings.speech.volume}
+                            onChange={(e) => updateSpeech({ volume: parseFloat(e.target.value) })}
+                        />
+                    </label>
+
+                    <label className="ar-setting">
+                        <span>Announce the same person at most every {settings.speech.cooldownMinutes} min</span>
+                        <input
+                            type="range"
+                            min={1}
+                            max={60}
+                            step={1}
+                            value={settings.speech.cooldownMinutes}
+                            onChange={(e) => updateSpeech({ cooldownMinutes: Number(e.target.value) })}
+                        />
+                    </label>
+
+                    <button className="ar-settings-reset" onClick={testVoice}>
+                        Test voice
+                    </button>
+                </div>
+            )}
+
+            <div className="ar-settings-group">
+                <h3>Headset</h3>
+                <label className="ar-setting">
+                    <span>Eye distance (IPD): {settings.stereo.ipdMm} mm</span>
+                    <input
+                        type="range"
+                        min={50}
+                        max={75}
+                        step={1}
+                        value={settings.stereo.ipdMm}
+                        onChange={(e) => updateStereo({ ipdMm: Number(e.target.value) })}
+                    />
+                </label>
+
+                <label className="ar-setting">
+                    <span>Screen width: {settings.stereo.screenWidthMm} mm</span>
+                    <input
+                        type="range"
+                        min={100}
+                        max={180}
+                        step={1}
+                        value={settings.stereo.screenWidthMm}
+                        onChange={(e) => updateStereo({ screenWidthMm: Number(e.target.value) })}
+                    />
+                </label>
+
+                <label className="ar-setting">
+                    <span>Lens correction: {settings.stereo.lensK1.toFixed(2)}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={0.6}
+                        step={0.01}
+                        value={settings.stereo.lensK1}
+                        onChange={(e) => updateStereo({ lensK1: parseFloat(e.target.value) })}
+                    />
+                </label>
+
+                <label className="ar-setting">
+                    <span>Edge correction: {settings.stereo.lensK2.toFixed(2)}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={0.6}
+                        step={0.01}
+                        value={settings.stereo.lensK2}
+                        onChange={(e) => updateStereo({ lensK2: parseFloat(e.target.value) })}
+                    />
+                </label>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>This Device</h3>
+                <label className="ar-setting">
+                    <span>Name shown in the visit log</span>
+                    <input
+                        type="text"
+                        value={deviceName}
+                        placeholder={defaultDeviceName()}
+                        onChange={(e) => setDeviceName(e.target.value)}
+                        onBlur={applyDeviceName}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    />
+                </label>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>Startup</h3>
+                <label className="ar-setting checkbox">
+                    <input
+                        type="checkbox"
+                        checked={settings.startInRayBanMode}
+                        onChange={(e) => update({ startInRayBanMode: e.target.checked })}
+                    />
+                    <span>Start in Ray-Ban mode</span>
+                </label>
+            </div>
+
+            <div className="ar-settings-group">
+                <h3>Patient Kiosk</h3>
+                <p className="ar-settings-hint">
+                    Locks this device to the AR viewer and hides the caregiver portal.
+                </p>
+                <label className="ar-setting">
+                    <span>Caregivers exit by</span>
+                    <select
+                        value={kioskExit}
+                        onChange={(e) => setKioskExit(e.target.value as KioskExitMethod)}
+                    >
+                        <option value="pin">Entering a PIN</option>
+                        <option value="longPress">Holding the lock button</option>
+                    </select>
+                </label>
+
+                {kioskExit === 'pin' && (
+                    <label className="ar-setting">
+                        <span>Caregiver PIN (4–8 digits)</span>
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="off"
+                            value={kioskPin}
+                            onChange={(e) => setKioskPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                        />
+                    </label>
+                )}
+
+                <button
+                    className="ar-settings-reset"
+                    onClick={() => onStartKiosk(kioskExit, kioskPin)}
+                    disabled={kioskExit === 'pin' && kioskPin.length < 4}
+                >
+                    🔒 Lock to AR viewer
+                </button>
+            </div>
+
+            <button className="ar-settings-reset" onClick={() => onChange(DEFAULT_AR_SETTINGS)}>
+                Reset to defaults
+            </button>
+        </div>
+    );
+}
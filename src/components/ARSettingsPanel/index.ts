@@ -0,0 +1 @@
+export { ARSettingsPanel } from './ARSettingsPanel';
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import { KIOSK_LONG_PRESS_MS, verifyPin, type KioskSettings } from '../../services/kiosk';
+import './KioskExit.css';
+
+interface KioskExitProps {
+    settings: KioskSettings;
+    onExit: () => void;
+}
+
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'];
+
+/**
+ * Lock button that replaces navigation in kiosk mode. Caregivers leave by holding it
+ * or by entering their PIN, depending on how the kiosk was set up.
+ */
+export function KioskExit({ settings, onExit }: KioskExitProps) {
+    const [holding, setHolding] = useState(false);
+    const [showPinPad, setShowPinPad] = useState(false);
+    const [pin, setPin] = useState('');
+    const [pinError, setPinError] = useState(false);
+    const [checking, setChecking] = useState(false);
+    const holdTimerRef = useRef<number | undefined>(undefined);
+
+    const usesPin = settings.exitMethod === 'pin' && settings.pinHash !== '';
+
+    useEffect(() => () => window.clearTimeout(holdTimerRef.current), []);
+
+    const startHold = () => {
+        if (usesPin) return;
+        setHolding(true);
+        holdTimerRef.current = window.setTimeout(() => {
+            setHolding(false);
+            onExit();
+        }, KIOSK_LONG_PRESS_MS);
+    };
+
+    const cancelHold = () => {
+        window.clearTimeout(holdTimerRef.current);
+        setHolding(false);
+    };
+
+    const pressKey = (key: string) => {
+        setPinError(false);
+        if (key === '⌫') setPin(pin.slice(0, -1));
+        else if (pin.length < 8) setPin(pin + key);
+    };
+
+    const submitPin = async () => {
+        setChecking(true);
+        try {
+            if (await verifyPin(settings, pin)) {
+                onExit();
+                return;
+            }
+            setPinError(true);
+            setPin('');
+        } catch (error) {
+            console.error('Error checking kiosk PIN:', error);
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const closePinPad = () => {
+        setShowPinPad(false);
+        setPin('');
+        setPinError(false);
+    };
+
+    return (
+        <>
+            <button
+                className={`kiosk-lock-btn ${holding ? 'holding' : ''}`}
+                style={{ '--hold-duration': `${KIOSK_LONG_PRESS_MS}ms` } as React.CSSProperties}
+                onClick={() => usesPin && setShowPinPad(true)}
+                onPointerDown={startHold}
+                onPointerUp={cancelHold}
+                onPointerLeave={cancelHold}
+                onPointerCancel={cancelHold}
+                onContextMenu={(e) => e.preventDefault()}
+                aria-label={usesPin ? 'Caregiver exit' : 'Hold to exit kiosk mode'}
+            >
+                🔒
+            </button>
+
+            {showPinPad && (
+                <div className="kiosk-pin-backdrop" onClick={closePinPad}>
+                    <div
+                        className="kiosk-pin-pad"
+                        role="dialog"
+                        aria-label="Caregiver PIN"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <h2>Caregiver PIN</h2>
+                        <div className={`kiosk-pin-dots ${pinError ? 'error' : ''}`}>
+                            {pinError ? 'Wrong PIN' : '•'.repeat(pin.length) || ' '}
+                        </div>
+                        <div className="kiosk-pin-keys">
+                            {PIN_KEYS.map((key, index) => key ? (
+                                <button key={index} className="kiosk-pin-key" onClick={() => pressKey(key)}>
+                                    {key}
+                                </button>
+                            ) : (
+                                <span key={index} />
+                            ))}
+                        </div>
+                        <div className="kiosk-pin-actions">
+                            <button className="kiosk-pin-cancel" onClick={closePinPad}>Cancel</button>
+                            <button
+                                className="kiosk-pin-submit"
+                                onClick={submitPin}
+                                disabled={pin.length < 4 || checking}
+                            >
+                                Unlock
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
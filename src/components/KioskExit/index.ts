@@ -0,0 +1 @@
+export { KioskExit } from './KioskExit';
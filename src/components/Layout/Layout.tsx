@@ -1,8 +1,25 @@
-import { Outlet } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
+import { loadKioskSettings } from '../../services/kiosk';
 import './Layout.css';
 
 export function Layout() {
+    const [kioskLocked, setKioskLocked] = useState<boolean | null>(null);
+
+    useEffect(() => {
+        loadKioskSettings()
+            .then(settings => setKioskLocked(settings.enabled))
+            .catch(error => {
+                console.error('Error loading kiosk settings:', error);
+                setKioskLocked(false);
+            });
+    }, []);
+
+    // A device locked to the patient kiosk never shows the caregiver portal
+    if (kioskLocked === null) return null;
+    if (kioskLocked) return <Navigate to="/ar" replace />;
+
     return (
         <div className="app-layout">
             <Sidebar />
@@ -29,6 +29,38 @@ export function Sidebar() {
                     <span className="nav-label">People</span>
                 </NavLink>
 
+                <NavLink
+                    to="/family"
+                    className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+                >
+                    <span className="nav-icon">🌳</span>
+                    <span className="nav-label">Family Tree</span>
+                </NavLink>
+
+                <NavLink
+                    to="/visitors"
+                    className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+                >
+                    <span className="nav-icon">🕵️</span>
+                    <span className="nav-label">Visitors</span>
+                </NavLink>
+
+                <NavLink
+                    to="/evaluation"
+                    className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+                >
+                    <span className="nav-icon">🎯</span>
+                    <span className="nav-label">Accuracy</span>
+                </NavLink>
+
+                <NavLink
+                    to="/orientation"
+                    className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
+                >
+                    <span className="nav-icon">🧭</span>
+                    <span className="nav-label">Orientation</span>
+                </NavLink>
+
                 <NavLink
                     to="/ar"
                     className={({ isActive }) => `nav-item ${isActive ? 'active' : ''}`}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import {
+    WEEKDAY_NAMES,
+    describeWhen,
+    nextScheduledItem,
+    partOfDay,
+    type OrientationSettings
+} from '../../services/orientation';
+import './OrientationCard.css';
+
+interface OrientationCardProps {
+    settings: OrientationSettings;
+    visible: boolean;
+}
+
+// The card only shows the time of day, so a coarse clock is enough
+const CLOCK_INTERVAL_MS = 30_000;
+
+/**
+ * Calm reality-orientation card for the empty AR view: day, date, time of day,
+ * where the patient is and what happens next
+ */
+export function OrientationCard({ settings, visible }: OrientationCardProps) {
+    const [now, setNow] = useState(() => new Date());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    if (!settings.enabled) return null;
+
+    const next = nextScheduledItem(settings.schedule, now);
+    const date = now.toLocaleDateString([], { day: 'numeric', month: 'long', year: 'numeric' });
+    const time = now.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+    return (
+        <div className={`orientation-card ${visible ? 'visible' : ''}`} aria-hidden={!visible}>
+            <p className="orientation-day">
+                {WEEKDAY_NAMES[now.getDay()]} {partOfDay(now)}
+            </p>
+            <p className="orientation-date">{date} · {time}</p>
+            {settings.location.trim() && (
+                <p className="orientation-location">You are {settings.location.trim()}</p>
+            )}
+            {next && (
+                <p className="orientation-next">
+                    Next: {next.item.label} {describeWhen(next.at, now)}
+                </p>
+            )}
+            {settings.note.trim() && <p className="orientation-note">{settings.note.trim()}</p>}
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { OrientationCard } from './OrientationCard';
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { currentCardIndex, type OverlayCard } from '../../services/overlayCards';
+import './PersonCards.css';
+
+interface PersonCardsProps {
+    cards: OverlayCard[];
+    shownAt: number; // Date.now() when the person appeared
+    secondsPerCard: number;
+}
+
+/**
+ * Conversation bubble under a person's AR label that slowly cycles through their cards
+ */
+export function PersonCards({ cards, shownAt, secondsPerCard }: PersonCardsProps) {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    if (cards.length === 0) return null;
+    const index = currentCardIndex(cards.length, now - shownAt, secondsPerCard);
+    const card = cards[index];
+
+    return (
+        <div className="convo-bubble person-cards">
+            {/* Keyed by index so every new card fades in */}
+            <div key={index} className={`person-card ${card.kind}`}>
+                <span className="person-card-title">{card.title}</span>
+                <p>{card.text}</p>
+            </div>
+            {cards.length > 1 && (
+                <div className="person-card-dots">
+                    {cards.map((_, dot) => (
+                        <span key={dot} className={dot === index ? 'active' : ''} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
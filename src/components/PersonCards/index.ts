@@ -0,0 +1 @@
+export { PersonCards } from './PersonCards';
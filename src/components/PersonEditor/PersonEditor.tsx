@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState } from 'react';
+import { getDescriptorGallery, getPersonById, type Person, type PersonDetails } from '../../db/database';
+import { ModelLoadError } from '../../services/faceDetection';
+import { getFaceRecognizer } from '../../services/faceRecognizer';
+import type { AnalyzedFace } from '../../services/photoQuality';
+import { findSimilarPerson } from '../../services/duplicates';
+import { PhotoQualityReport } from '../PhotoQuality';
+import './PersonEditor.css';
+
+interface PersonEditorProps {
+    person: Person;
+    onSave: (changes: Partial<PersonDetails>, photoDescriptor?: number[]) => Promise<void>;
+    onClose: () => void;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not read the photo'));
+        img.src = url;
+    });
+}
+
+/**
+ * Modal for fixing a person's name and relation or swapping in a better photo.
+ * A new photo goes through the same face and quality checks as enrollment.
+ */
+export function PersonEditor({ person, onSave, onClose }: PersonEditorProps) {
+    const [name, setName] = useState(person.name);
+    const [relation, setRelation] = useState(person.relation);
+    const [photoFile, setPhotoFile] = useState<File | null>(null);
+    const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+    const [analyzedFaces, setAnalyzedFaces] = useState<AnalyzedFace[]>([]);
+    const [selectedFace, setSelectedFace] = useState(0);
+    const [faceStatus, setFaceStatus] = useState<'none' | 'extracting' | 'found' | 'not_found' | 'model_error'>('none');
+    const [modelError, setModelError] = useState('');
+    const [lookalike, setLookalike] = useState<{ person: Person; similarity: number } | null>(null);
+    const [saving, setSaving] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => () => {
+        if (photoPreview) URL.revokeObjectURL(photoPreview);
+    }, [photoPreview]);
+
+    async function handlePhotoChange(e: React.ChangeEvent<HTMLInputElement>) {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const previewUrl = URL.createObjectURL(file);
+        setPhotoFile(file);
+        setPhotoPreview(previewUrl);
+        setAnalyzedFaces([]);
+        setSelectedFace(0);
+        setLookalike(null);
+        setFaceStatus('extracting');
+
+        try {
+            await getFaceRecognizer().loadModels();
+            const faces = await getFaceRecognizer().analyzePhoto(await loadImage(previewUrl));
+            setAnalyzedFaces(faces);
+            if (faces.length > 0) {
+                setFaceStatus('found');
+                await checkForLookalike(faces[0]);
+            } else {
+                setFaceStatus('not_found');
+            }
+        } catch (error) {
+            console.error('Error analyzing photo:', error);
+            if (error instanceof ModelLoadError) {
+                setModelError(error.message);
+                setFaceStatus('model_error');
+            } else {
+                setFaceStatus('not_found');
+            }
+        }
+    }
+
+    // A photo that matches someone else better is probably of the wrong person
+    async function checkForLookalike(face: AnalyzedFace) {
+        setLookalike(null);
+        try {
+            const others = (await getDescriptorGallery()).filter(entry => entry.id !== person.id);
+            const match = findSimilarPerson(face.descriptor, others);
+            const other = match && await getPersonById(match.personId);
+            if (match && other) setLookalike({ person: other, similarity: match.similarity });
+        } catch (error) {
+            console.error('Error checking photo against other people:', error);
+        }
+    }
+
+    function handleSelectFace(index: number) {
+        setSelectedFace(index);
+        if (analyzedFaces[index]) checkForLookalike(analyzedFaces[index]);
+    }
+
+    const chosenFace: AnalyzedFace | undefined = analyzedFaces[selectedFace];
+    // Same rule as enrollment: photos that fail the quality checks are refused
+    const photoRejected = photoFile !== null && (faceStatus === 'extracting' || chosenFace?.verdict === 'fail');
+    const unchanged = name.trim() === person.name && relation.trim() === person.relation && !photoFile;
+
+    async function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+        if (!name.trim() || !relation.trim() || unchanged || photoRejected) return;
+
+        setSaving(true);
+        try {
+            await onSave(
+                { name: name.trim(), relation: relation.trim(), ...(photoFile && { photoBlob: photoFile }) },
+                photoFile ? chosenFace?.descriptor : undefined
+            );
+        } catch (error) {
+            console.error('Error saving person:', error);
+            setSaving(false);
+        }
+    }
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2 className="modal-title">Edit {person.name}</h2>
+                    <button className="btn btn-ghost btn-icon" onClick={onClose}>
+                        ✕
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="modal-body">
+                    {/* Photo */}
+                    <div className="person-editor-photo">
+                        <button
+                            type="button"
+                            className="person-editor-preview"
+                            onClick={() => fileInputRef.current?.click()}
+                            title="Replace photo"
+                        >
+                            <img src={photoPreview ?? person.photoUrl} alt={person.name} />
+                            <span className="person-editor-replace">Replace</span>
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*"
+                            onChange={handlePhotoChange}
+                            style={{ display: 'none' }}
+                        />
+
+                        {faceStatus === 'extracting' && (
+                            <div className="person-editor-status">
+                                <div className="spinner" style={{ width: 14, height: 14 }}></div>
+                                <span>Detecting face...</span>
+                            </div>
+                        )}
+                        {faceStatus === 'not_found' && (
+                            <div className="person-editor-status error">
+                                ⚠️ No face detected. Try a clearer photo.
+                            </div>
+                        )}
+                        {faceStatus === 'model_error' && (
+                            <div className="person-editor-status error">
+                                ⚠️ Face recognition unavailable. {modelError}
+                            </div>
+                        )}
+                        {faceStatus === 'found' && (
+                            <PhotoQualityReport
+                                faces={analyzedFaces}
+                                selectedFace={selectedFace}
+                                onSelectFace={handleSelectFace}
+                            />
+                        )}
+                        {lookalike && (
+                            <div className="person-editor-status warning">
+                                <img src={lookalike.person.photoUrl} alt={lookalike.person.name} />
+                                <span>
+                                    This looks like {lookalike.person.name} ({lookalike.person.relation}),{' '}
+                                    {Math.round(lookalike.similarity * 100)}% similar. Check it is really {person.name}.
+                                </span>
+                            </div>
+                        )}
+                        {photoFile && (
+                            <span className="person-editor-hint">
+                                The old photo and its face sample move to the edit history.
+                                {chosenFace && ` The new one is added to ${person.name}'s face samples.`}
+                            </span>
+                        )}
+                    </div>
+
+                    <div className="input-group">
+                        <label className="input-label">Name</label>
+                        <input
+                            type="text"
+                            className="input"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            required
+                        />
+                    </div>
+
+                    <div className="input-group">
+                        <label className="input-label">Relation</label>
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g., Daughter, Caregiver, Friend"
+                            value={relation}
+                            onChange={(e) => setRelation(e.target.value)}
+                            required
+                        />
+                    </div>
+
+                    <div className="modal-footer">
+                        <button type="button" className="btn btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="btn btn-primary"
+                            disabled={saving || !name.trim() || !relation.trim() || unchanged || photoRejected}
+                        >
+                            {saving ? 'Saving...' : 'Save Changes'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
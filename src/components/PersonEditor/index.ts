@@ -0,0 +1 @@
+export { PersonEditor } from './PersonEditor';
@@ -0,0 +1,67 @@
+import type { AnalyzedFace, QualityLevel } from '../../services/photoQuality';
+import './PhotoQualityReport.css';
+
+interface PhotoQualityReportProps {
+    faces: AnalyzedFace[];
+    selectedFace: number;
+    onSelectFace: (index: number) => void;
+}
+
+const VERDICT_TEXT: Record<QualityLevel, string> = {
+    pass: 'Good photo for recognition',
+    warn: 'Usable, but could be better',
+    fail: 'This photo will not recognize well',
+};
+
+const LEVEL_ICON: Record<QualityLevel, string> = {
+    pass: '✅',
+    warn: '⚠️',
+    fail: '❌',
+};
+
+export function PhotoQualityReport({ faces, selectedFace, onSelectFace }: PhotoQualityReportProps) {
+    const face = faces[selectedFace];
+    if (!face) return null;
+
+    return (
+        <div className={`quality-report ${face.verdict}`}>
+            {/* Face picker for group photos */}
+            {faces.length > 1 && (
+                <div className="quality-face-picker">
+                    <span className="quality-picker-label">Which one is this person?</span>
+                    <div className="quality-face-options">
+                        {faces.map((option, index) => (
+                            <button
+                                key={index}
+                                type="button"
+                                className={`quality-face-option ${index === selectedFace ? 'selected' : ''}`}
+                                onClick={() => onSelectFace(index)}
+                            >
+                                <img src={option.thumbnailUrl} alt={`Face ${index + 1}`} />
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="quality-verdict">
+                <span>{LEVEL_ICON[face.verdict]}</span>
+                <span>{VERDICT_TEXT[face.verdict]}</span>
+            </div>
+
+            <ul className="quality-checks">
+                {face.checks.map((check) => (
+                    <li key={check.id} className={`quality-check ${check.level}`}>
+                        <span className="quality-check-icon">{LEVEL_ICON[check.level]}</span>
+                        <div className="quality-check-body">
+                            <span className="quality-check-label">
+                                {check.label}: <span className="quality-check-value">{check.value}</span>
+                            </span>
+                            {check.advice && <span className="quality-check-advice">{check.advice}</span>}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
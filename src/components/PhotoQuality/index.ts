@@ -0,0 +1 @@
+export { PhotoQualityReport } from './PhotoQualityReport';
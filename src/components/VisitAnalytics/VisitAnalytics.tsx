@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    getEncountersBetween,
+    getLastSeenByPerson,
+    getUnknownSightingTimesBetween,
+    type Encounter,
+    type Person
+} from '../../db/database';
+import {
+    LOW_CONFIDENCE,
+    confidenceByPerson,
+    countPerDay,
+    lastDays,
+    peopleNotSeenIn,
+    startOfDay,
+    timeOfDayHeatmap,
+    visitsPerPersonPerWeek,
+    type DateRange
+} from '../../services/analytics';
+import './VisitAnalytics.css';
+
+interface VisitAnalyticsProps {
+    people: Person[];
+}
+
+type RangePreset = '7' | '30' | '90' | 'custom';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateInput(date: Date): string {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 10);
+}
+
+function fromDateInput(value: string, endOfDay: boolean): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+}
+
+function shortDate(date: Date): string {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+// Cell background for a count, from faint to full accent
+function intensity(count: number, max: number): string {
+    if (count === 0 || max === 0) return '#f5f5f7';
+    return `rgba(0, 113, 227, ${0.15 + 0.85 * (count / max)})`;
+}
+
+export function VisitAnalytics({ people }: VisitAnalyticsProps) {
+    const [preset, setPreset] = useState<RangePreset>('30');
+    const [customFrom, setCustomFrom] = useState(() => toDateInput(lastDays(30).from));
+    const [customTo, setCustomTo] = useState(() => toDateInput(new Date()));
+    const [absentDays, setAbsentDays] = useState(14);
+    const [encounters, setEncounters] = useState<Encounter[]>([]);
+    const [unknownTimes, setUnknownTimes] = useState<Date[]>([]);
+    const [lastSeen, setLastSeen] = useState<Map<number, Date>>(new Map());
+    const [loading, setLoading] = useState(true);
+
+    const range = useMemo<DateRange>(() => {
+        if (preset !== 'custom') return lastDays(Number(preset));
+        const from = fromDateInput(customFrom, false);
+        const to = fromDateInput(customTo, true);
+        return from <= to ? { from, to } : { from: startOfDay(to), to };
+    }, [preset, customFrom, customTo]);
+
+    useEffect(() => {
+        let cancelled = false;
+        async function loadAnalytics() {
+            try {
+                const [encounterData, unknownData, lastSeenData] = await Promise.all([
+                    getEncountersBetween(range.from, range.to),
+                    getUnknownSightingTimesBetween(range.from, range.to),
+                    getLastSeenByPerson()
+                ]);
+                if (cancelled) return;
+                setEncounters(encounterData);
+                setUnknownTimes(unknownData);
+                setLastSeen(lastSeenData);
+            } catch (error) {
+                console.error('Error loading visit analytics:', error);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        }
+        loadAnalytics();
+        return () => {
+            cancelled = true;
+        };
+    }, [range]);
+
+    const nameFor = useMemo(() => {
+        const names = new Map(people.map(person => [person.id!, person.name]));
+        return (personId: number) => names.get(personId) ?? 'Removed person';
+    }, [people]);
+
+    const weekly = useMemo(() => visitsPerPersonPerWeek(encounters, range), [encounters, range]);
+    const heatmap = useMemo(() => timeOfDayHeatmap(encounters), [encounters]);
+    const unknownPerDay = useMemo(() => countPerDay(unknownTimes, range), [unknownTimes, range]);
+    const confidence = useMemo(() => confidenceByPerson(encounters), [encounters]);
+    const absent = useMemo(
+        () => peopleNotSeenIn(people, lastSeen, absentDays),
+        [people, lastSeen, absentDays]
+    );
+
+    const weeklyMax = Math.max(0, ...weekly.rows.flatMap(row => row.counts));
+    const heatmapMax = Math.max(0, ...heatmap.flat());
+    const unknownMax = Math.max(1, ...unknownPerDay.map(day => day.count));
+
+    return (
+        <section className="dashboard-section visit-analytics">
+            <div className="section-header">
+                <h2 className="section-title">Visit Analytics</h2>
+                <div className="analytics-range">
+                    {(['7', '30', '90'] as const).map(days => (
+                        <button
+                            key={days}
+                            className={`analytics-range-btn ${preset === days ? 'active' : ''}`}
+                            onClick={() => setPreset(days)}
+                        >
+                            {days} days
+                        </button>
+                    ))}
+                    <button
+                        className={`analytics-range-btn ${preset === 'custom' ? 'active' : ''}`}
+                        onClick={() => setPreset('custom')}
+                    >
+                        Custom
+                    </button>
+                    {preset === 'custom' && (
+                        <div className="analytics-custom-range">
+                            <input
+                                type="date"
+                                className="input"
+                                value={customFrom}
+                                max={customTo}
+                                onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+                            />
+                            <span>to</span>
+                            <input
+                                type="date"
+                                className="input"
+                                value={customTo}
+                                min={customFrom}
+                                onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+                            />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="loading-container">
+                    <div className="spinner"></div>
+                    <p>Loading analytics...</p>
+                </div>
+            ) : (
+                <div className="analytics-grid">
+                    {/* Visits per person per week */}
+                    <div className="analytics-card glass-card wide">
+                        <h3 className="analytics-card-title">Visits per week</h3>
+                        {weekly.rows.length === 0 ? (
+                            <p className="analytics-empty">No recognized visits in this period.</p>
+                        ) : (
+                            <div className="analytics-table-scroll">
+                                <table className="weekly-table">
+                                    <thead>
+                                        <tr>
+                                            <th></th>
+                                            {weekly.weeks.map(week => (
+                                                <th key={week.getTime()}>{shortDate(week)}</th>
+                                            ))}
+                                            <th>Total</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {weekly.rows.map(row => (
+                                            <tr key={row.personId}>
+                                                <th>
+                                                    <Link to={`/people/${row.personId}`}>{nameFor(row.personId)}</Link>
+                                                </th>
+                                                {row.counts.map((count, index) => (
+                                                    <td
+                                                        key={index}
+                                                        className={count / weeklyMax > 0.5 ? 'strong' : ''}
+                                                        style={{ background: intensity(count, weeklyMax) }}
+                                                    >
+                                                        {count || ''}
+                                                    </td>
+                                                ))}
+                                                <td className="weekly-total">{row.total}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Time-of-day heatmap */}
+                    <div className="analytics-card glass-card wide">
+                        <h3 className="analytics-card-title">When visits start</h3>
+                        <div className="heatmap">
+                            {heatmap.map((hours, day) => (
+                                <div key={day} className="heatmap-row">
+                                    <span className="heatmap-label">{WEEKDAYS[day]}</span>
+                                    {hours.map((count, hour) => (
+                                        <span
+                                            key={hour}
+                                            className="heatmap-cell"
+                                            style={{ background: intensity(count, heatmapMax) }}
+                                            title={`${WEEKDAYS[day]} ${hour}:00 – ${count} visit${count === 1 ? '' : 's'}`}
+                                        />
+                                    ))}
+                                </div>
+                            ))}
+                            <div className="heatmap-row heatmap-hours">
+                                <span className="heatmap-label"></span>
+                                {heatmap[0].map((_, hour) => (
+                                    <span key={hour} className="heatmap-hour">
+                                        {hour % 6 === 0 ? `${hour}:00` : ''}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* People not seen recently */}
+                    <div className="analytics-card glass-card">
+                        <div className="analytics-card-header">
+                            <h3 className="analytics-card-title">Not seen in</h3>
+                            <input
+                                type="number"
+                                className="input absent-days-input"
+                                min={1}
+                                value={absentDays}
+                                onChange={(e) => setAbsentDays(Math.max(1, Number(e.target.value) || 1))}
+                            />
+                            <span className="analytics-card-unit">days</span>
+                        </div>
+                        {absent.length === 0 ? (
+                            <p className="analytics-empty">Everyone has visited recently.</p>
+                        ) : (
+                            <ul className="absent-list">
+                                {absent.map(({ person, lastSeen: seen }) => (
+                                    <li key={person.id}>
+                                        <Link to={`/people/${person.id}`}>{person.name}</Link>
+                                        <span className="absent-since">
+                                            {seen
+                                                ? `${Math.floor((Date.now() - seen.getTime()) / DAY_MS)} days ago`
+                                                : 'Never seen'}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Unknown faces */}
+                    <div className="analytics-card glass-card">
+                        <h3 className="analytics-card-title">Unknown faces per day</h3>
+                        <svg
+                            className="unknown-chart"
+                            viewBox={`0 0 ${unknownPerDay.length * 10} 100`}
+                            preserveAspectRatio="none"
+                            role="img"
+                            aria-label="Unknown face sightings per day"
+                        >
+                            {unknownPerDay.map(({ day, count }, index) => (
+                                <rect
+                                    key={day.getTime()}
+                                    x={index * 10 + 1}
+                                    y={100 - (count / unknownMax) * 100}
+                                    width={8}
+                                    height={(count / unknownMax) * 100}
+                                >
+                                    <title>{`${shortDate(day)}: ${count}`}</title>
+                                </rect>
+                            ))}
+                        </svg>
+                        <div className="unknown-chart-axis">
+                            <span>{shortDate(range.from)}</span>
+                            <span>{unknownTimes.length} sightings</span>
+                            <span>{shortDate(range.to)}</span>
+                        </div>
+                        <Link to="/visitors" className="section-link">Review unknown visitors →</Link>
+                    </div>
+
+                    {/* Recognition confidence */}
+                    <div className="analytics-card glass-card wide">
+                        <h3 className="analytics-card-title">Average recognition confidence</h3>
+                        {confidence.length === 0 ? (
+                            <p className="analytics-empty">No recognized visits in this period.</p>
+                        ) : (
+                            <ul className="confidence-list">
+                                {confidence.map(entry => {
+                                    const low = entry.averageSimilarity < LOW_CONFIDENCE;
+                                    return (
+                                        <li key={entry.personId} className={low ? 'low' : ''}>
+                                            <span className="confidence-name">{nameFor(entry.personId)}</span>
+                                            <span className="confidence-bar">
+                                                <span
+                                                    className="confidence-fill"
+                                                    style={{ width: `${Math.round(entry.averageSimilarity * 100)}%` }}
+                                                />
+                                                <span
+                                                    className="confidence-threshold"
+                                                    style={{ left: `${LOW_CONFIDENCE * 100}%` }}
+                                                />
+                                            </span>
+                                            <span className="confidence-value">
+                                                {Math.round(entry.averageSimilarity * 100)}%
+                                            </span>
+                                            {low ? (
+                                                <Link to={`/people/${entry.personId}`} className="confidence-action">
+                                                    ⚠️ Add better photos
+                                                </Link>
+                                            ) : (
+                                                <span className="confidence-visits">
+                                                    {entry.visits} visit{entry.visits === 1 ? '' : 's'}
+                                                </span>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+}
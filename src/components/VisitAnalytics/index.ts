@@ -0,0 +1 @@
+export { VisitAnalytics } from './VisitAnalytics';
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from 'react';
+import { addConversation, deleteVisitDraft, type Person, type VisitDraft } from '../../db/database';
+import { summarizeConversation } from '../../services/gemini';
+import { dictationAvailable, startDictation } from '../../services/dictation';
+import './VisitLogSheet.css';
+
+interface VisitLogSheetProps {
+    person: Person;
+    draft: VisitDraft;
+    onNotesChange: (update: (notes: string) => string) => void;
+    onSaved: () => void;
+    onClose: () => void;
+}
+
+function formatVisitTime(draft: VisitDraft): string {
+    const day = draft.startedAt.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' });
+    const time = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    return `${day}, ${time(draft.startedAt)} – ${time(draft.endedAt)}`;
+}
+
+/**
+ * Bottom sheet for logging a visit as a conversation without leaving the AR view
+ */
+export function VisitLogSheet({ person, draft, onNotesChange, onSaved, onClose }: VisitLogSheetProps) {
+    const [useAI, setUseAI] = useState(true);
+    const [manualSummary, setManualSummary] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [dictating, setDictating] = useState(false);
+    const [dictationError, setDictationError] = useState('');
+    const stopDictationRef = useRef<(() => void) | null>(null);
+
+    useEffect(() => () => stopDictationRef.current?.(), []);
+
+    const toggleDictation = () => {
+        if (dictating) {
+            stopDictationRef.current?.();
+            return;
+        }
+        setDictationError('');
+        try {
+            stopDictationRef.current = startDictation(
+                (text) => onNotesChange(notes => notes.trim() ? `${notes.trimEnd()} ${text}` : text),
+                (error) => {
+                    stopDictationRef.current = null;
+                    setDictating(false);
+                    if (error) setDictationError(error === 'not-allowed' ? 'Microphone access denied' : 'Dictation stopped');
+                }
+            );
+            setDictating(true);
+        } catch (error) {
+            console.error('Error starting dictation:', error);
+            setDictationError('Dictation is not available');
+        }
+    };
+
+    async function handleSave(e: React.FormEvent) {
+        e.preventDefault();
+        if (!draft.notes.trim() || !person.id) return;
+        if (!useAI && !manualSummary.trim()) return;
+
+        stopDictationRef.current?.();
+        setSaving(true);
+        try {
+            const summary = useAI ? await summarizeConversation(draft.notes) : manualSummary.trim();
+            await addConversation(person.id, draft.notes.trim(), summary, draft.startedAt);
+            await deleteVisitDraft(person.id);
+            onSaved();
+        } catch (error) {
+            console.error('Error logging visit:', error);
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    return (
+        <div className="visit-sheet-backdrop" onClick={onClose}>
+            <form
+                className="visit-sheet"
+                role="dialog"
+                aria-label={`Log visit with ${person.name}`}
+                onClick={(e) => e.stopPropagation()}
+                onSubmit={handleSave}
+            >
+                <div className="visit-sheet-header">
+                    <img src={person.photoUrl} alt={person.name} className="visit-sheet-photo" />
+                    <div>
+                        <h2>Visit with {person.name}</h2>
+                        <span className="visit-sheet-time">{formatVisitTime(draft)}</span>
+                    </div>
+                    <button type="button" className="visit-sheet-close" onClick={onClose} aria-label="Close">✕</button>
+                </div>
+
+                <textarea
+                    className="visit-sheet-notes"
+                    placeholder={`What did you talk about with ${person.name}?`}
+                    value={draft.notes}
+                    onChange={(e) => onNotesChange(() => e.target.value)}
+                    rows={4}
+                    autoFocus
+                />
+
+                <div className="visit-sheet-options">
+                    {dictationAvailable() && (
+                        <button
+                            type="button"
+                            className={`visit-sheet-dictate ${dictating ? 'active' : ''}`}
+                            onClick={toggleDictation}
+                        >
+                            {dictating ? '⏹ Stop dictating' : '🎙 Dictate'}
+                        </button>
+                    )}
+                    <label className="visit-sheet-toggle">
+                        <input type="checkbox" checked={useAI} onChange={(e) => setUseAI(e.target.checked)} />
+                        <span>Use AI to summarize</span>
+                    </label>
+                </div>
+                {dictationError && <p className="visit-sheet-error">{dictationError}</p>}
+
+                {!useAI && (
+                    <input
+                        type="text"
+                        className="visit-sheet-summary"
+                        placeholder="Summary shown in AR, e.g. Talked about the garden"
+                        value={manualSummary}
+                        onChange={(e) => setManualSummary(e.target.value)}
+                    />
+                )}
+
+                <div className="visit-sheet-actions">
+                    <span className="visit-sheet-hint">Notes are kept as a draft until you save</span>
+                    <button
+                        type="submit"
+                        className="visit-sheet-save"
+                        disabled={saving || !draft.notes.trim() || (!useAI && !manualSummary.trim())}
+                    >
+                        {saving ? (useAI ? 'Summarizing...' : 'Saving...') : 'Save Conversation'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
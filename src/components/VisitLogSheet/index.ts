@@ -0,0 +1 @@
+export { VisitLogSheet } from './VisitLogSheet';
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import { startClipRecording, clipDuration, trimClip, playClip, MAX_CLIP_SECONDS } from '../../services/voiceClips';
+import './VoiceClipEditor.css';
+
+interface VoiceClipEditorProps {
+    clip?: Blob;
+    personName: string;
+    onSave: (clip: Blob | undefined) => Promise<void>;
+}
+
+type EditorState =
+    | { mode: 'idle' }
+    | { mode: 'recording'; stop: () => void }
+    | { mode: 'review'; draft: Blob; duration: number; start: number; end: number };
+
+export function VoiceClipEditor({ clip, personName, onSave }: VoiceClipEditorProps) {
+    const [state, setState] = useState<EditorState>({ mode: 'idle' });
+    const [elapsed, setElapsed] = useState(0);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+    const stopRef = useRef<(() => void) | null>(null);
+
+    // Stop the microphone if the page is left mid-recording
+    useEffect(() => () => stopRef.current?.(), []);
+
+    useEffect(() => {
+        if (state.mode !== 'recording') return;
+        const startedAt = Date.now();
+        const timer = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 100);
+        return () => clearInterval(timer);
+    }, [state.mode]);
+
+    async function review(draft: Blob) {
+        try {
+            const duration = await clipDuration(draft);
+            setState({ mode: 'review', draft, duration, start: 0, end: duration });
+        } catch (err) {
+            console.error('Error reading voice clip:', err);
+            setError('The recording could not be read. Please try again.');
+            setState({ mode: 'idle' });
+        }
+    }
+
+    async function handleRecord() {
+        setError('');
+        setElapsed(0);
+        try {
+            const recording = await startClipRecording();
+            stopRef.current = recording.stop;
+            setState({ mode: 'recording', stop: recording.stop });
+            const draft = await recording.result;
+            stopRef.current = null;
+            await review(draft);
+        } catch (err) {
+            console.error('Error recording voice clip:', err);
+            setError('Microphone unavailable. Check that the browser may use it.');
+            setState({ mode: 'idle' });
+        }
+    }
+
+    async function handlePreview() {
+        if (state.mode !== 'review') return;
+        try {
+            await playClip(await trimClip(state.draft, state.start, state.end));
+        } catch (err) {
+            console.error('Error previewing voice clip:', err);
+        }
+    }
+
+    async function handleSave() {
+        if (state.mode !== 'review') return;
+        setSaving(true);
+        try {
+            const trimmed = state.start > 0 || state.end < state.duration
+                ? await trimClip(state.draft, state.start, state.end)
+                : state.draft;
+            await onSave(trimmed);
+            setState({ mode: 'idle' });
+        } catch (err) {
+            console.error('Error saving voice clip:', err);
+            setError('The clip could not be saved.');
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function handleDelete() {
+        try {
+            await onSave(undefined);
+        } catch (err) {
+            console.error('Error deleting voice clip:', err);
+        }
+    }
+
+    return (
+        <div className="voice-clip-editor glass-card">
+            {state.mode === 'idle' && (
+                <div className="voice-clip-row">
+                    <span className="voice-clip-status">
+                        {clip ? '🎙️ Voice clip recorded' : `No recording yet. Ask ${personName} to say their name or a short greeting.`}
+                    </span>
+                    <div className="voice-clip-actions">
+                        {clip && (
+                            <>
+                                <button className="btn btn-secondary btn-sm" onClick={() => playClip(clip)}>▶ Play</button>
+                                <button className="btn btn-secondary btn-sm" onClick={() => review(clip)}>✂️ Trim</button>
+                                <button className="btn btn-ghost btn-sm" onClick={handleDelete}>🗑️</button>
+                            </>
+                        )}
+                        <button className="btn btn-primary btn-sm" onClick={handleRecord}>
+                            {clip ? 'Re-record' : '● Record'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {state.mode === 'recording' && (
+                <div className="voice-clip-row">
+                    <span className="voice-clip-status recording">
+                        <span className="recording-dot"></span>
+                        Recording {elapsed.toFixed(1)}s / {MAX_CLIP_SECONDS}s
+                    </span>
+                    <button className="btn btn-danger btn-sm" onClick={state.stop}>■ Stop</button>
+                </div>
+            )}
+
+            {state.mode === 'review' && (
+                <div className="voice-clip-review">
+                    <div className="voice-clip-trim">
+                        <label className="input-label">
+                            Start at {state.start.toFixed(1)}s
+                            <input
+                                type="range"
+                                min={0}
+                                max={state.duration}
+                                step={0.1}
+                                value={state.start}
+                                onChange={(e) => setState({ ...state, start: Math.min(parseFloat(e.target.value), state.end - 0.2) })}
+                            />
+                        </label>
+                        <label className="input-label">
+                            End at {state.end.toFixed(1)}s
+                            <input
+                                type="range"
+                                min={0}
+                                max={state.duration}
+                                step={0.1}
+                                value={state.end}
+                                onChange={(e) => setState({ ...state, end: Math.max(parseFloat(e.target.value), state.start + 0.2) })}
+                            />
+                        </label>
+                    </div>
+                    <div className="voice-clip-actions">
+                        <button className="btn btn-secondary btn-sm" onClick={handlePreview}>▶ Preview</button>
+                        <button className="btn btn-ghost btn-sm" onClick={() => setState({ mode: 'idle' })}>Discard</button>
+                        <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={saving}>
+                            {saving ? 'Saving...' : 'Save Clip'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="voice-clip-error">{error}</p>}
+        </div>
+    );
+}
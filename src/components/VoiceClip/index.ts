@@ -0,0 +1 @@
+export { VoiceClipEditor } from './VoiceClipEditor';
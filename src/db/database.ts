@@ -7,11 +7,125 @@ export interface Person {
   relation: string;
   photoBlob: Blob;
   photoUrl?: string; // For displaying in UI
-  faceDescriptor?: number[]; // For face recognition
+  photoSampleId?: number; // Face sample made from the current photo, replaced along with it
+  announcementPhrase?: string; // Spoken in AR instead of the default "This is ..." phrase
+  voiceClipBlob?: Blob; // Recorded name or greeting, played in AR instead of the spoken phrase
+  pinnedFact?: string; // Caregiver's note shown among the AR cards, e.g. "Just became a grandmother"
+  nickname?: string; // What the patient calls them, e.g. "Granny"
+  birthday?: string; // 'YYYY-MM-DD'
+  location?: string; // Where they live, e.g. "Leeds"
+  interests: string[];
+  sharedMemories: string[]; // e.g. "Our trip to Whitby in 1998"
+  keyFacts: string[]; // e.g. "Her kids are Ava and Leo"
+  arProfileFields: ProfileField[]; // Which profile fields the AR cards show
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ProfileField = 'nickname' | 'birthday' | 'location' | 'interests' | 'sharedMemories' | 'keyFacts';
+
+export const DEFAULT_AR_PROFILE_FIELDS: ProfileField[] = ['nickname', 'location', 'keyFacts'];
+
+export interface FaceSample {
+  id?: number;
+  personId: number;
+  photoBlob: Blob;
+  photoUrl?: string; // For displaying in UI
+  descriptor: number[]; // For face recognition
+  createdAt: Date;
+}
+
+// A group of sightings that look like the same unrecognized face
+export interface UnknownCluster {
+  id?: number;
+  centroid: number[]; // Running average of the sightings' descriptors
+  sightingCount: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface UnknownSighting {
+  id?: number;
+  clusterId: number;
+  descriptor: number[];
+  snapshotBlob: Blob; // Cropped face from the AR camera
+  snapshotUrl?: string; // For displaying in UI
+  seenAt: Date;
+}
+
+// When an unknown face was seen; kept for analytics after the inbox sightings are trimmed or cleared
+export interface UnknownSightingTime {
+  id?: number;
+  seenAt: Date;
+}
+
+// One continuous visit of a recognized person in front of the AR camera
+export interface Encounter {
+  id?: number;
+  personId: number;
+  startedAt: Date;
+  endedAt: Date;
+  durationMs: number;
+  peakSimilarity: number;
+  averageSimilarity: number;
+  frameCount: number; // Frames the person was recognized in
+  device: string; // Which tablet or glasses saw them
+}
+
+// Notes for a visit that have not been logged as a conversation yet
+export interface VisitDraft {
+  personId: number; // One draft per person
+  startedAt: Date; // When the visit began, used as the conversation date
+  endedAt: Date;
+  notes: string;
+  updatedAt: Date;
+}
+
+// Kinds of relationship; gender and modifier pick the word, e.g. child + female + inLaw = "daughter-in-law"
+export type RelationRole =
+  | 'parent' | 'child' | 'sibling' | 'spouse' | 'partner'
+  | 'grandparent' | 'grandchild' | 'auntUncle' | 'nieceNephew' | 'cousin'
+  | 'friend' | 'neighbour' | 'nurse' | 'carer' | 'doctor' | 'other';
+export type RelationGender = 'female' | 'male' | 'neutral';
+export type RelationModifier = 'none' | 'step' | 'inLaw' | 'half';
+
+// Stands in for the patient as the other end of a relationship; person ids start at 1
+export const PATIENT_ID = 0;
+
+// "Ava is Sarah's daughter" is { personId: Ava, relativeId: Sarah, role: 'child', gender: 'female' }
+export interface Relationship {
+  id?: number;
+  personId: number;
+  relativeId: number; // Another person, or PATIENT_ID
+  role: RelationRole;
+  gender: RelationGender;
+  modifier: RelationModifier;
+  label?: string; // Role name when role is 'other', e.g. "Physiotherapist"
+  createdAt: Date;
+}
+
+// The details a caregiver can change after enrollment
+export type PersonDetails = Pick<Person, 'name' | 'relation' | 'photoBlob'>;
+
+// One edit of a person's details, kept so it can be reverted
+export interface PersonEdit {
+  id?: number;
+  personId: number;
+  before: Partial<PersonDetails>; // Only the fields that changed
+  after: Partial<PersonDetails>;
+  addedSampleId?: number; // Face sample made from a replacement photo, removed on revert
+  removedSample?: FaceSample; // Face sample of the photo that was replaced, put back on revert
+  editedAt: Date;
+  beforePhotoUrl?: string; // For displaying in UI
+  afterPhotoUrl?: string;
+}
+
+// App-wide settings stored as key/value pairs
+export interface Setting {
+  key: string;
+  value: unknown;
+}
+
 export interface Conversation {
   id?: number;
   personId: number;
@@ -25,6 +139,15 @@ export interface Conversation {
 class DementiaDatabase extends Dexie {
   people!: EntityTable<Person, 'id'>;
   conversations!: EntityTable<Conversation, 'id'>;
+  faceSamples!: EntityTable<FaceSample, 'id'>;
+  unknownClusters!: EntityTable<UnknownCluster, 'id'>;
+  unknownSightings!: EntityTable<UnknownSighting, 'id'>;
+  settings!: EntityTable<Setting, 'key'>;
+  encounters!: EntityTable<Encounter, 'id'>;
+  visitDrafts!: EntityTable<VisitDraft, 'personId'>;
+  personEdits!: EntityTable<PersonEdit, 'id'>;
+  relationships!: EntityTable<Relationship, 'id'>;
+  unknownSightingLog!: EntityTable<UnknownSightingTime, 'id'>;
 
   constructor() {
     super('DementiaARDatabase');
@@ -33,12 +156,103 @@ class DementiaDatabase extends Dexie {
       people: '++id, name, relation, createdAt',
       conversations: '++id, personId, date, createdAt'
     });
+
+    // v2: a person can have several face samples instead of one descriptor
+    this.version(2).stores({
+      faceSamples: '++id, personId, createdAt'
+    }).upgrade(async (tx) => {
+      const people = tx.table<Person & { faceDescriptor?: number[] }, number>('people');
+      const samples = tx.table<FaceSample, number>('faceSamples');
+
+      const legacy = await people.toArray();
+      await samples.bulkAdd(
+        legacy
+          .filter((person) => person.id && person.faceDescriptor)
+          .map((person) => ({
+            personId: person.id!,
+            photoBlob: person.photoBlob,
+            descriptor: person.faceDescriptor!,
+            createdAt: person.createdAt
+          }))
+      );
+      await people.toCollection().modify((person) => {
+        delete person.faceDescriptor;
+      });
+    });
+
+    // v3: inbox of unrecognized faces seen in AR
+    this.version(3).stores({
+      unknownClusters: '++id, lastSeenAt',
+      unknownSightings: '++id, clusterId, seenAt'
+    });
+
+    // v4: settings such as calibrated match thresholds
+    this.version(4).stores({
+      settings: 'key'
+    });
+
+    // v5: log of recognized visits
+    this.version(5).stores({
+      encounters: '++id, personId, startedAt'
+    });
+
+    // v6: unsaved visit notes from the AR view
+    this.version(6).stores({
+      visitDrafts: 'personId'
+    });
+
+    // v7: history of edits to a person's name, relation and photo
+    this.version(7).stores({
+      personEdits: '++id, personId'
+    });
+
+    // v8: structured profile fields; the schema is unchanged, existing people get empty lists
+    this.version(8).stores({}).upgrade(async (tx) => {
+      await tx.table<Person, number>('people').toCollection().modify((person) => {
+        person.interests ??= [];
+        person.sharedMemories ??= [];
+        person.keyFacts ??= [];
+        person.arProfileFields ??= [...DEFAULT_AR_PROFILE_FIELDS];
+      });
+    });
+
+    // v9: typed relationships between people and to the patient
+    this.version(9).stores({
+      relationships: '++id, personId, relativeId'
+    });
+
+    // v10: append-only log of unknown face sightings, starting from the ones still in the inbox
+    this.version(10).stores({
+      unknownSightingLog: '++id, seenAt'
+    }).upgrade(async (tx) => {
+      const seenAt = await tx.table<UnknownSighting, number>('unknownSightings').orderBy('seenAt').keys() as Date[];
+      await tx.table<UnknownSightingTime, number>('unknownSightingLog').bulkAdd(seenAt.map((time) => ({ seenAt: time })));
+    });
+
+    // v11: people link to the face sample of their current photo. Found from the latest photo edit
+    // still in the history, else the sample added with the person.
+    this.version(11).stores({}).upgrade(async (tx) => {
+      const samples = await tx.table<FaceSample, number>('faceSamples').toArray();
+      const photoEdits = (await tx.table<PersonEdit, number>('personEdits').toArray())
+        .filter((edit) => edit.after.photoBlob !== undefined);
+
+      await tx.table<Person, number>('people').toCollection().modify((person) => {
+        const latest = photoEdits.filter((edit) => edit.personId === person.id).pop();
+        const sample = latest
+          ? samples.find((s) => s.id === latest.addedSampleId)
+          : samples.find((s) => s.personId === person.id && s.createdAt.getTime() === person.createdAt.getTime());
+        if (sample) person.photoSampleId = sample.id;
+      });
+    });
   }
 }
 
 // Create and export database instance
 export const db = new DementiaDatabase();
 
+// Edits kept per person; older ones can no longer be reverted
+const MAX_PERSON_EDITS = 10;
+
 // Helper functions
 export async function addPerson(
   name: string,
@@ -47,15 +261,31 @@ export async function addPerson(
   faceDescriptor?: number[]
 ): Promise<number> {
   const now = new Date();
-  const id = await db.people.add({
-    name,
-    relation,
-    photoBlob,
-    faceDescriptor,
-    createdAt: now,
-    updatedAt: now
+  return db.transaction('rw', db.people, db.faceSamples, async () => {
+    const id = await db.people.add({
+      name,
+      relation,
+      photoBlob,
+      interests: [],
+      sharedMemories: [],
+      keyFacts: [],
+      arProfileFields: [...DEFAULT_AR_PROFILE_FIELDS],
+      createdAt: now,
+      updatedAt: now
+    }) as number;
+
+    // The enrollment photo becomes the first sample in the gallery
+    if (faceDescriptor) {
+      const photoSampleId = await db.faceSamples.add({
+        personId: id,
+        photoBlob,
+        descriptor: faceDescriptor,
+        createdAt: now
+      }) as number;
+      await db.people.update(id, { photoSampleId });
+    }
+    return id;
   });
-  return id as number;
 }
 
 export async function updatePerson(
@@ -68,13 +298,139 @@ export async function updatePerson(
   });
 }
 
+/**
+ * Change a person's name, relation or photo and record the edit so it can be reverted.
+ * A replacement photo with a detected face also joins their face samples.
+ */
+export async function editPerson(
+  id: number,
+  changes: Partial<PersonDetails>,
+  photoDescriptor?: number[]
+): Promise<void> {
+  await db.transaction('rw', [db.people, db.faceSamples, db.personEdits], async () => {
+    const person = await db.people.get(id);
+    if (!person) throw new Error(`Person ${id} not found`);
+
+    const before: Partial<PersonDetails> = {};
+    const after: Partial<PersonDetails> = {};
+    for (const field of ['name', 'relation'] as const) {
+      const value = changes[field];
+      if (value !== undefined && value !== person[field]) {
+        before[field] = person[field];
+        after[field] = value;
+      }
+    }
+    if (changes.photoBlob) {
+      before.photoBlob = person.photoBlob;
+      after.photoBlob = changes.photoBlob;
+    }
+    if (Object.keys(after).length === 0) return;
+
+    // The replaced photo should no longer be matched against
+    const removedSample = after.photoBlob && person.photoSampleId !== undefined
+      ? await db.faceSamples.get(person.photoSampleId)
+      : undefined;
+    if (removedSample) await db.faceSamples.delete(removedSample.id!);
+
+    const now = new Date();
+    const addedSampleId = after.photoBlob && photoDescriptor
+      ? await db.faceSamples.add({
+        personId: id,
+        photoBlob: after.photoBlob,
+        descriptor: photoDescriptor,
+        createdAt: now
+      }) as number
+      : undefined;
+
+    const photoSample = after.photoBlob ? { photoSampleId: addedSampleId } : {};
+    await db.people.update(id, { ...after, ...photoSample, updatedAt: now });
+    await db.personEdits.add({ personId: id, before, after, addedSampleId, removedSample, editedAt: now });
+
+    // Keys come back oldest first, so trim from the front
+    const editIds = await db.personEdits.where('personId').equals(id).primaryKeys();
+    await db.personEdits.bulkDelete(editIds.slice(0, -MAX_PERSON_EDITS));
+  });
+}
+
+/**
+ * Undo an edit along with any made after it, leaving the person as they were before it
+ */
+export async function revertPersonEdit(editId: number): Promise<void> {
+  await db.transaction('rw', [db.people, db.faceSamples, db.personEdits], async () => {
+    const edit = await db.personEdits.get(editId);
+    if (!edit) return;
+
+    const edits = await db.personEdits.where('personId').equals(edit.personId).toArray();
+    const undone = edits.filter((e) => e.id! >= editId).reverse();
+    for (const e of undone) {
+      const photoSample = e.after.photoBlob ? { photoSampleId: e.removedSample?.id } : {};
+      await db.people.update(e.personId, { ...e.before, ...photoSample, updatedAt: new Date() });
+      if (e.addedSampleId) await db.faceSamples.delete(e.addedSampleId);
+      if (e.removedSample) await db.faceSamples.put(e.removedSample);
+    }
+    await db.personEdits.bulkDelete(undone.map((e) => e.id!));
+  });
+}
+
+export async function getPersonEdits(personId: number): Promise<PersonEdit[]> {
+  const edits = await db.personEdits.where('personId').equals(personId).reverse().toArray();
+  return edits.map((edit) => ({
+    ...edit,
+    beforePhotoUrl: edit.before.photoBlob && URL.createObjectURL(edit.before.photoBlob),
+    afterPhotoUrl: edit.after.photoBlob && URL.createObjectURL(edit.after.photoBlob)
+  }));
+}
+
 export async function deletePerson(id: number): Promise<void> {
-  // Delete all conversations for this person first
+  // Delete all conversations, face samples, visits, edit history and relationships for this person first
   await db.conversations.where('personId').equals(id).delete();
+  await db.faceSamples.where('personId').equals(id).delete();
+  await db.encounters.where('personId').equals(id).delete();
+  await db.personEdits.where('personId').equals(id).delete();
+  await db.relationships.where('personId').equals(id).or('relativeId').equals(id).delete();
+  await db.visitDrafts.delete(id);
   // Then delete the person
   await db.people.delete(id);
 }
 
+/**
+ * Fold a duplicate record into the one being kept, moving its conversations, face samples, visits, draft notes
+ * and relationships
+ */
+export async function mergePeople(keepId: number, mergeId: number): Promise<void> {
+  const tables = [db.people, db.conversations, db.faceSamples, db.encounters, db.visitDrafts, db.personEdits, db.relationships];
+  await db.transaction('rw', tables, async () => {
+    await db.conversations.where('personId').equals(mergeId).modify({ personId: keepId });
+    await db.faceSamples.where('personId').equals(mergeId).modify({ personId: keepId });
+    await db.encounters.where('personId').equals(mergeId).modify({ personId: keepId });
+    await db.relationships.where('personId').equals(mergeId).modify({ personId: keepId });
+    await db.relationships.where('relativeId').equals(mergeId).modify({ relativeId: keepId });
+    // A relationship between the two duplicates would now point at itself
+    await db.relationships.where('personId').equals(keepId).filter((r) => r.relativeId === keepId).delete();
+    // Both duplicates may have been linked to the same relative; keep the earliest entry
+    const linked = await db.relationships.where('personId').equals(keepId).or('relativeId').equals(keepId).sortBy('id');
+    const seen = new Set<string>();
+    const repeated = linked.filter((r) => {
+      const pair = `${r.personId}-${r.relativeId}`;
+      if (seen.has(pair)) return true;
+      seen.add(pair);
+      return false;
+    });
+    await db.relationships.bulkDelete(repeated.map((r) => r.id!));
+
+    // Drafts are keyed by person, so the kept person's own draft wins
+    const draft = await db.visitDrafts.get(mergeId);
+    if (draft && !(await db.visitDrafts.get(keepId))) {
+      await db.visitDrafts.add({ ...draft, personId: keepId });
+    }
+    await db.visitDrafts.delete(mergeId);
+    // The duplicate's edits only describe a record that is going away
+    await db.personEdits.where('personId').equals(mergeId).delete();
+    await db.people.delete(mergeId);
+    await db.people.update(keepId, { updatedAt: new Date() });
+  });
+}
+
 export async function getAllPeople(): Promise<Person[]> {
   const people = await db.people.toArray();
   // Convert blobs to URLs for display
@@ -95,16 +451,124 @@ export async function getPersonById(id: number): Promise<Person | undefined> {
   return undefined;
 }
 
+export async function addFaceSample(
+  personId: number,
+  photoBlob: Blob,
+  descriptor: number[]
+): Promise<number> {
+  const id = await db.faceSamples.add({
+    personId,
+    photoBlob,
+    descriptor,
+    createdAt: new Date()
+  });
+  return id as number;
+}
+
+export async function getFaceSamplesForPerson(
+  personId: number
+): Promise<FaceSample[]> {
+  const samples = await db.faceSamples
+    .where('personId')
+    .equals(personId)
+    .sortBy('createdAt');
+  return samples.map((sample) => ({
+    ...sample,
+    photoUrl: URL.createObjectURL(sample.photoBlob)
+  }));
+}
+
+/**
+ * All descriptors grouped by person, ready for matching
+ */
+export async function getDescriptorGallery(): Promise<Array<{ id: number; descriptors: number[][] }>> {
+  const samples = await db.faceSamples.toArray();
+  const byPerson = new Map<number, number[][]>();
+  for (const sample of samples) {
+    const list = byPerson.get(sample.personId) ?? [];
+    list.push(sample.descriptor);
+    byPerson.set(sample.personId, list);
+  }
+  return Array.from(byPerson, ([id, descriptors]) => ({ id, descriptors }));
+}
+
+export async function deleteFaceSample(id: number): Promise<void> {
+  await db.faceSamples.delete(id);
+}
+
+export async function getUnknownClusters(): Promise<Array<UnknownCluster & { sightings: UnknownSighting[] }>> {
+  const clusters = await db.unknownClusters.orderBy('lastSeenAt').reverse().toArray();
+  return Promise.all(clusters.map(async (cluster) => {
+    const sightings = await db.unknownSightings
+      .where('clusterId')
+      .equals(cluster.id!)
+      .reverse()
+      .sortBy('seenAt');
+    return {
+      ...cluster,
+      sightings: sightings.map((sighting) => ({
+        ...sighting,
+        snapshotUrl: URL.createObjectURL(sighting.snapshotBlob)
+      }))
+    };
+  }));
+}
+
+export async function deleteUnknownCluster(id: number): Promise<void> {
+  await db.transaction('rw', db.unknownClusters, db.unknownSightings, async () => {
+    await db.unknownSightings.where('clusterId').equals(id).delete();
+    await db.unknownClusters.delete(id);
+  });
+}
+
+/**
+ * Enroll an unknown face cluster: every sighting becomes a face sample of the person
+ */
+export async function attachClusterToPerson(clusterId: number, personId: number): Promise<void> {
+  await db.transaction('rw', [db.unknownClusters, db.unknownSightings, db.faceSamples], async () => {
+    const sightings = await db.unknownSightings.where('clusterId').equals(clusterId).toArray();
+    await db.faceSamples.bulkAdd(sightings.map((sighting) => ({
+      personId,
+      photoBlob: sighting.snapshotBlob,
+      descriptor: sighting.descriptor,
+      createdAt: new Date()
+    })));
+    await deleteUnknownCluster(clusterId);
+  });
+}
+
+/**
+ * Turn an unknown face cluster into a new person, using its latest snapshot as their photo
+ */
+export async function promoteClusterToPerson(
+  clusterId: number,
+  name: string,
+  relation: string
+): Promise<number> {
+  return db.transaction('rw', [db.people, db.unknownClusters, db.unknownSightings, db.faceSamples], async () => {
+    const sightings = await db.unknownSightings.where('clusterId').equals(clusterId).sortBy('seenAt');
+    const latest = sightings[sightings.length - 1];
+    if (!latest) throw new Error(`Unknown face cluster ${clusterId} has no sightings`);
+
+    // The latest sighting becomes the photo and its sample; the rest join the gallery
+    const personId = await addPerson(name, relation, latest.snapshotBlob, latest.descriptor);
+    await db.unknownSightings.delete(latest.id!);
+    await attachClusterToPerson(clusterId, personId);
+    return personId;
+  });
+}
+
 export async function addConversation(
   personId: number,
   rawText: string,
-  summary: string
+  summary: string,
+  date = new Date()
 ): Promise<number> {
   const id = await db.conversations.add({
     personId,
     rawText,
     summary,
-    date: new Date(),
+    date,
     createdAt: new Date()
   });
   return id as number;
@@ -120,6 +584,18 @@ export async function getConversationsForPerson(
     .sortBy('date');
 }
 
+export async function getRecentConversations(
+  personId: number,
+  limit: number
+): Promise<Conversation[]> {
+  const conversations = await db.conversations
+    .where('personId')
+    .equals(personId)
+    .reverse()
+    .sortBy('date');
+  return conversations.slice(0, limit);
+}
+
 export async function getLatestConversation(
   personId: number
 ): Promise<Conversation | undefined> {
@@ -135,6 +611,85 @@ export async function deleteConversation(id: number): Promise<void> {
   await db.conversations.delete(id);
 }
 
+export async function addEncounter(encounter: Omit<Encounter, 'id'>): Promise<number> {
+  const id = await db.encounters.add(encounter);
+  return id as number;
+}
+
+export async function updateEncounter(
+  id: number,
+  updates: Partial<Omit<Encounter, 'id' | 'personId' | 'startedAt'>>
+): Promise<void> {
+  await db.encounters.update(id, updates);
+}
+
+export async function getEncountersForPerson(personId: number): Promise<Encounter[]> {
+  return await db.encounters
+    .where('personId')
+    .equals(personId)
+    .reverse()
+    .sortBy('startedAt');
+}
+
+export async function getEncountersBetween(from: Date, to: Date): Promise<Encounter[]> {
+  return await db.encounters
+    .where('startedAt')
+    .between(from, to, true, true)
+    .toArray();
+}
+
+/**
+ * When each person was last recognized, across all recorded history
+ */
+export async function getLastSeenByPerson(): Promise<Map<number, Date>> {
+  const lastSeen = new Map<number, Date>();
+  await db.encounters.orderBy('startedAt').each((encounter) => {
+    lastSeen.set(encounter.personId, encounter.endedAt);
+  });
+  return lastSeen;
+}
+
+export async function getUnknownSightingTimesBetween(from: Date, to: Date): Promise<Date[]> {
+  return await db.unknownSightingLog
+    .where('seenAt')
+    .between(from, to, true, true)
+    .keys() as Date[];
+}
+
+export async function getVisitDrafts(): Promise<VisitDraft[]> {
+  return await db.visitDrafts.orderBy('personId').toArray();
+}
+
+export async function saveVisitDraft(draft: VisitDraft): Promise<void> {
+  await db.visitDrafts.put(draft);
+}
+
+export async function deleteVisitDraft(personId: number): Promise<void> {
+  await db.visitDrafts.delete(personId);
+}
+
+export async function getRelationships(): Promise<Relationship[]> {
+  return await db.relationships.toArray();
+}
+
+export async function addRelationship(relationship: Omit<Relationship, 'id' | 'createdAt'>): Promise<number> {
+  const id = await db.relationships.add({ ...relationship, createdAt: new Date() });
+  return id as number;
+}
+
+export async function deleteRelationship(id: number): Promise<void> {
+  await db.relationships.delete(id);
+}
+
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const setting = await db.settings.get(key);
+  return setting ? setting.value as T : fallback;
+}
+
+export async function saveSetting<T>(key: string, value: T): Promise<void> {
+  await db.settings.put({ key, value });
+}
+
 export async function getStats(): Promise<{
   totalPeople: number;
   totalConversations: number;
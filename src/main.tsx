@@ -1,6 +1,10 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { selectRecognizerBackend } from './services/faceRecognizer'
+
+// Decide before routing drops the ?recognizer= query
+selectRecognizerBackend()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
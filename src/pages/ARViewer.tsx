@@ -1,106 +1,334 @@
-import { useEffect, useState, useRef } from 'react';
-import { Link } from 'react-router-dom';
-import { getAllPeople, getLatestConversation, type Person } from '../db/database';
-import { loadFaceDetectionModels, detectFaceWithDescriptor, findBestMatch } from '../services/faceDetection';
+import { useEffect, useEffectEvent, useState, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+    getAllPeople,
+    getDescriptorGallery,
+    getRecentConversations,
+    getSetting,
+    getVisitDrafts,
+    getRelationships,
+    saveVisitDraft,
+    deleteVisitDraft,
+    type Person,
+    type Relationship,
+    type VisitDraft
+} from '../db/database';
+import { ModelLoadError, DEFAULT_MATCH_THRESHOLDS } from '../services/faceDetection';
+import { createFaceRecognizer, type FaceRecognizer, type RecognizedFace } from '../services/faceRecognizer';
+import { IdentityTracker } from '../services/identityTracker';
+import { recordUnknownSighting, cropFaceSnapshot } from '../services/unknownVisitors';
+import { RecognitionTimeline } from '../services/recognitionTimeline';
+import {
+    loadARSettings,
+    saveARSettings,
+    videoConstraints,
+    listCameras,
+    deviceNameFor,
+    DEFAULT_AR_SETTINGS,
+    type ARSettings
+} from '../services/arSettings';
+import { EncounterLog } from '../services/encounterLog';
+import { labelAnchorForFace, mirrorFacePosition, resolveLabelOverlaps, type OverlayPoint } from '../services/overlayLayout';
+import { ARSettingsPanel } from '../components/ARSettingsPanel';
+import { Announcer, announcementFor, stopSpeaking } from '../services/announcements';
+import { StereoRenderer, immersiveSupported, type StereoLabel } from '../services/stereoView';
+import {
+    loadKioskSettings,
+    saveKioskSettings,
+    hashPin,
+    enterFullscreen,
+    exitFullscreen,
+    ScreenWakeLock,
+    DEFAULT_KIOSK_SETTINGS,
+    type KioskExitMethod,
+    type KioskSettings
+} from '../services/kiosk';
+import { KioskExit } from '../components/KioskExit';
+import { PersonCards } from '../components/PersonCards';
+import { buildOverlayCards, currentCardIndex, type OverlayCard } from '../services/overlayCards';
+import { OrientationCard } from '../components/OrientationCard';
+import {
+    loadOrientationSettings,
+    DEFAULT_ORIENTATION_SETTINGS,
+    type OrientationSettings
+} from '../services/orientation';
+import { VisitLogSheet } from '../components/VisitLogSheet';
+import { isBirthday } from '../services/personProfile';
+import { relationPhrase } from '../services/relationships';
 import './ARViewer.css';
 
 interface DetectedPerson extends Person {
-    lastConvo?: string;
+    cards: OverlayCard[];
+    shownAt: number; // When the label appeared, for rotating the cards
+    relationText: string; // e.g. "Sarah's daughter, your granddaughter"
 }
 
-interface StoredPersonWithDescriptor {
+// A visit that can still be logged as a conversation
+interface PendingVisit {
+    person: Person;
+    draft: VisitDraft;
+}
+
+// How often unknown faces are snapshotted for the visitors inbox
+const UNKNOWN_SAVE_INTERVAL_MS = 3000;
+// With nobody in frame, slow down checks step by step up to this interval
+const IDLE_BACKOFF_AFTER_FRAMES = 10;
+const MAX_IDLE_INTERVAL_MS = 1000;
+// Most summaries a person's cards can show
+const MAX_RECENT_CONVERSATIONS = 3;
+// Wait between attempts to get a dropped camera back
+const CAMERA_RETRY_MS = 3000;
+// Someone has to be in view this long before leaving offers to log the visit
+const MIN_LOGGED_VISIT_MS = 10000;
+
+interface Recording {
+    name: string;
+    url: string;
+}
+
+interface StoredPersonWithDescriptors {
     id: number;
-    descriptor: number[];
+    descriptors: number[][];
+}
+
+/**
+ * Delay before the next check: the configured interval while faces are in view,
+ * doubling every few empty frames so an empty room costs little
+ */
+function recognitionDelay(intervalMs: number, emptyFrames: number): number {
+    const steps = Math.floor(emptyFrames / IDLE_BACKOFF_AFTER_FRAMES);
+    return steps === 0 ? intervalMs : Math.max(intervalMs, Math.min(intervalMs * 2 ** steps, MAX_IDLE_INTERVAL_MS));
+}
+
+function formatPlaybackTime(seconds: number): string {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Empty notes leave nothing to keep, so an opened-then-closed sheet does not linger after a reload
+function persistVisitDraft(draft: VisitDraft) {
+    const save = draft.notes.trim() ? saveVisitDraft(draft) : deleteVisitDraft(draft.personId);
+    save.catch(error => console.error('Error saving visit notes:', error));
 }
 
 export function ARViewer() {
+    const navigate = useNavigate();
+    const containerRef = useRef<HTMLDivElement>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
-    const [detectedPerson, setDetectedPerson] = useState<DetectedPerson | null>(null);
+    const [detectedPeople, setDetectedPeople] = useState<DetectedPerson[]>([]);
     const [cameraActive, setCameraActive] = useState(false);
     const [isRayBanMode, setIsRayBanMode] = useState(false);
+    const [isImmersive, setIsImmersive] = useState(false);
+    const [xrSupported, setXrSupported] = useState(false);
+    const [showHeadsetControls, setShowHeadsetControls] = useState(false);
     const [isTracking, setIsTracking] = useState(false);
     const [recognitionStatus, setRecognitionStatus] = useState('Loading AI...');
-
-    // Use refs for animation to avoid stale closure issues
-    const targetPosRef = useRef({ x: 75, y: 30 });
-    const smoothPosRef = useRef({ x: 75, y: 30 });
-    const [overlayPos, setOverlayPos] = useState({ x: 75, y: 30 });
+    const [recording, setRecording] = useState<Recording | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [playbackTime, setPlaybackTime] = useState(0);
+    const [playbackDuration, setPlaybackDuration] = useState(0);
+    const [hasTimeline, setHasTimeline] = useState(false);
+    const [settings, setSettings] = useState<ARSettings>(DEFAULT_AR_SETTINGS);
+    const [showSettings, setShowSettings] = useState(false);
+    const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+    const [kiosk, setKiosk] = useState<KioskSettings>(DEFAULT_KIOSK_SETTINGS);
+    const [orientation, setOrientation] = useState<OrientationSettings>(DEFAULT_ORIENTATION_SETTINGS);
+    const [pendingVisits, setPendingVisits] = useState<PendingVisit[]>([]);
+    const [loggingVisit, setLoggingVisit] = useState<PendingVisit | null>(null);
+
+    // Use refs for animation to avoid stale closure issues (keyed by person id).
+    // Overlays are moved with direct DOM transforms so the animation never re-renders React.
+    const targetPosRef = useRef(new Map<number, OverlayPoint>());
+    const smoothPosRef = useRef(new Map<number, OverlayPoint>());
+    const placedPosRef = useRef(new Map<number, OverlayPoint>());
+    const overlayElementsRef = useRef(new Map<number, HTMLDivElement>());
     const animationRef = useRef<number | undefined>(undefined);
-    const lastMatchedIdRef = useRef<number | null>(null);
+    const lastMatchedIdsRef = useRef(new Set<number>());
+    const identityTrackerRef = useRef(new IdentityTracker<RecognizedFace>());
+    const lastUnknownSaveRef = useRef(0);
+    const emptyFramesRef = useRef(0);
     const recognitionLoopRef = useRef(false);
     const modelsReadyRef = useRef(false);
-    const storedDescriptorsRef = useRef<StoredPersonWithDescriptor[]>([]);
+    const recognizerRef = useRef<FaceRecognizer | null>(null);
+    const storedDescriptorsRef = useRef<StoredPersonWithDescriptors[]>([]);
     const allPeopleRef = useRef<Person[]>([]);
+    const relationshipsRef = useRef<Relationship[]>([]);
+    const isMountedRef = useRef(false);
+    const recordingRef = useRef<Recording | null>(null);
+    const timelineRef = useRef(new RecognitionTimeline());
+    const settingsRef = useRef<ARSettings>(DEFAULT_AR_SETTINGS);
+    const announcerRef = useRef(new Announcer());
+    const encounterLogRef = useRef<EncounterLog | null>(null);
+    const stereoCanvasRef = useRef<HTMLCanvasElement>(null);
+    const stereoRendererRef = useRef<StereoRenderer | null>(null);
+    const detectedPeopleRef = useRef<DetectedPerson[]>([]);
+    const wakeLockRef = useRef(new ScreenWakeLock());
+    const cameraWantedRef = useRef(false);
+    const cameraRetryRef = useRef<number | undefined>(undefined);
+
+    // Camera recovery for the mount effect's listeners, without making the effect depend on it
+    const onCameraMaybeLost = useEffectEvent(() => {
+        recoverCamera();
+    });
 
     useEffect(() => {
+        // The first run under StrictMode must not finish initializing, so it gets its own flag
         const isMounted = { current: true };
+        isMountedRef.current = true;
         initializeAR(isMounted);
+        immersiveSupported().then(supported => isMounted.current && setXrSupported(supported));
+
+        // Backgrounding the tab can suspend or kill the camera; check on it whenever the tab comes back
+        const wakeLock = wakeLockRef.current;
+        const onVisibilityChange = () => {
+            if (document.visibilityState === 'visible') onCameraMaybeLost();
+        };
+        document.addEventListener('visibilitychange', onVisibilityChange);
 
         return () => {
             isMounted.current = false;
+            isMountedRef.current = false;
             if (videoRef.current?.srcObject) {
                 const stream = videoRef.current.srcObject as MediaStream;
                 stream.getTracks().forEach(track => track.stop());
             }
             if (animationRef.current) cancelAnimationFrame(animationRef.current);
             recognitionLoopRef.current = false;
+            recognizerRef.current?.dispose();
+            recognizerRef.current = null;
+            if (recordingRef.current) URL.revokeObjectURL(recordingRef.current.url);
+            stopSpeaking();
+            encounterLogRef.current?.closeAll();
+            stereoRendererRef.current?.dispose();
+            wakeLock.release();
+            window.clearTimeout(cameraRetryRef.current);
+            document.removeEventListener('visibilitychange', onVisibilityChange);
         };
     }, []);
 
+    useEffect(() => {
+        detectedPeopleRef.current = detectedPeople;
+    }, [detectedPeople]);
+
+    // Visit notes are stored as they are typed so they survive leaving the page
+    useEffect(() => {
+        if (loggingVisit) persistVisitDraft(loggingVisit.draft);
+    }, [loggingVisit]);
+
+    // Split-screen stereo for phone-in-headset viewers, whenever no WebXR session is drawing instead
+    useEffect(() => {
+        const renderer = stereoRendererRef.current;
+        if (!isRayBanMode || isImmersive || !renderer) return;
+
+        let frame = requestAnimationFrame(function render() {
+            const video = videoRef.current;
+            const { stereo, mirror } = settingsRef.current;
+            if (video) renderer.renderSplitScreen(video, stereoLabels(), stereo, mirror);
+            frame = requestAnimationFrame(render);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isRayBanMode, isImmersive]);
+
     const initializeAR = async (isMounted: { current: boolean }) => {
-        // Load all people and their face descriptors
-        const people = await getAllPeople();
+        // Load all people and their face sample galleries
+        const [
+            people, gallery, thresholds, arSettings, kioskSettings, orientationSettings, visitDrafts, relationships
+        ] = await Promise.all([
+            getAllPeople(),
+            getDescriptorGallery(),
+            getSetting('matchThresholds', DEFAULT_MATCH_THRESHOLDS),
+            loadARSettings(),
+            loadKioskSettings(),
+            loadOrientationSettings(),
+            getVisitDrafts(),
+            getRelationships()
+        ]);
         if (!isMounted.current) return;
 
-        if (!isMounted.current) return;
+        setOrientation(orientationSettings);
+
+        // Notes left unsaved last time are offered again
+        setPendingVisits(visitDrafts.flatMap(draft => {
+            const person = people.find(p => p.id === draft.personId);
+            return person ? [{ person, draft }] : [];
+        }));
+
+        setKiosk(kioskSettings);
+        if (kioskSettings.enabled) {
+            // Fullscreen may need a tap first; see the container's pointer handler
+            enterFullscreen();
+            wakeLockRef.current.acquire();
+        }
+
+        settingsRef.current = arSettings;
+        setSettings(arSettings);
+        encounterLogRef.current = new EncounterLog(deviceNameFor(arSettings));
+        if (arSettings.startInRayBanMode && getStereoRenderer()) setIsRayBanMode(true);
 
         allPeopleRef.current = people;
+        relationshipsRef.current = relationships;
         console.log('All people loaded from DB:', people);
 
 
-        // Build descriptor lookup
-        const descriptors: StoredPersonWithDescriptor[] = [];
-        for (const person of people) {
-            if (person.id && person.faceDescriptor) {
-                descriptors.push({ id: person.id, descriptor: person.faceDescriptor });
-            }
-        }
+        // Only keep galleries of people that still exist
+        const descriptors: StoredPersonWithDescriptors[] = gallery.filter(
+            entry => people.some(person => person.id === entry.id)
+        );
         storedDescriptorsRef.current = descriptors;
 
-        console.log(`Loaded ${descriptors.length} face descriptors for recognition`);
+        console.log(`Loaded face galleries for ${descriptors.length} people for recognition`);
 
         // Load face detection/recognition models
         if (!isMounted.current) return;
         setRecognitionStatus('Loading AI models...');
 
         try {
-            const loaded = await loadFaceDetectionModels();
-            if (!isMounted.current) return;
-
+            // With face-api, detection and matching run in a worker to keep the UI thread free
+            const recognizer = createFaceRecognizer({ live: true });
+            recognizerRef.current = recognizer;
+            await recognizer.loadModels();
             if (!isMounted.current) return;
 
-            modelsReadyRef.current = loaded;
-            setRecognitionStatus(loaded ? 'Scanning...' : 'AI failed to load');
-
-            // Start camera
-            await startCamera(isMounted);
+            recognizer.setGallery(descriptors, thresholds);
+            recognizer.setDetectorOptions(settingsRef.current.detector);
+            recognizer.setMatchStrategy(settingsRef.current.matchStrategy);
 
-            // Start animation loop
-            if (isMounted.current) startAnimationLoop();
+            modelsReadyRef.current = true;
+            setRecognitionStatus('Scanning...');
         } catch (error) {
             console.error('Initialization error:', error);
-            if (isMounted.current) setRecognitionStatus('Error loading AI');
+            if (!isMounted.current) return;
+            setRecognitionStatus(error instanceof ModelLoadError ? error.message : 'Error loading AI');
         }
+
+        // Start camera even without models so the patient still sees the feed
+        await startCamera(isMounted);
+
+        // Start animation loop
+        if (isMounted.current) startAnimationLoop();
     };
 
     const startCamera = async (isMounted: { current: boolean }) => {
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({
-                video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } }
-            });
+            let stream: MediaStream;
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settingsRef.current) });
+            } catch (deviceError) {
+                // The saved camera may have been unplugged; fall back to the default one
+                if (!settingsRef.current.cameraDeviceId) throw deviceError;
+                console.warn('Saved camera unavailable, using the default camera:', deviceError);
+                stream = await navigator.mediaDevices.getUserMedia({
+                    video: videoConstraints({ ...settingsRef.current, cameraDeviceId: '' })
+                });
+            }
+
+            // Device names are only available once permission has been granted
+            listCameras().then(setCameras).catch(error => console.error('Error listing cameras:', error));
 
             if (videoRef.current && isMounted.current) {
                 videoRef.current.srcObject = stream;
+                cameraWantedRef.current = true;
+                stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => recoverCamera()));
 
                 // Play and handle potential interruption errors
                 try {
@@ -133,6 +361,33 @@ export function ARViewer() {
         }
     };
 
+    // Bring the camera back after the stream dropped or the tab was backgrounded, retrying until it returns
+    const recoverCamera = async () => {
+        window.clearTimeout(cameraRetryRef.current);
+        if (!cameraWantedRef.current || recordingRef.current || !isMountedRef.current) return;
+
+        const video = videoRef.current;
+        const stream = video?.srcObject as MediaStream | null;
+        if (video && stream?.getVideoTracks().some(track => track.readyState === 'live')) {
+            if (video.paused) video.play().catch(error => console.error('Error resuming camera:', error));
+            return;
+        }
+
+        console.warn('Camera stream lost, reconnecting');
+        stream?.getTracks().forEach(track => track.stop());
+        if (video) video.srcObject = null;
+        clearOverlays();
+        setCameraActive(false);
+        setRecognitionStatus('Reconnecting camera...');
+        await startCamera(isMountedRef);
+
+        const restored = (videoRef.current?.srcObject as MediaStream | null)
+            ?.getVideoTracks().some(track => track.readyState === 'live');
+        if (!restored && isMountedRef.current) {
+            cameraRetryRef.current = window.setTimeout(recoverCamera, CAMERA_RETRY_MS);
+        }
+    };
+
     const startFaceRecognition = () => {
         if (recognitionLoopRef.current) return; // Prevent multiple loops
         console.log('Starting face recognition loop...');
@@ -144,75 +399,207 @@ export function ARViewer() {
                 return;
             }
 
-            if (!videoRef.current || !modelsReadyRef.current) {
+            if (!videoRef.current || !modelsReadyRef.current || !recognizerRef.current) {
                 console.log('Waiting for models/video...');
                 setTimeout(recognize, 500);
                 return;
             }
 
-            console.log('Detecting face...');
-            const result = await detectFaceWithDescriptor(videoRef.current);
-
-
-            if (result) {
-                // Update overlay position
-                targetPosRef.current = {
-                    x: Math.min(result.position.x + 8, 85),
-                    y: Math.max(result.position.y - 5, 10)
-                };
-                setIsTracking(true);
-
-                // Try to recognize the face
-                if (result.descriptor && storedDescriptorsRef.current.length > 0) {
-                    const match = findBestMatch(result.descriptor, storedDescriptorsRef.current);
-
-                    if (match) {
-                        // Found a match!
-                        if (match.personId !== lastMatchedIdRef.current) {
-                            // New person recognized
-                            lastMatchedIdRef.current = match.personId;
-                            const matchedPerson = allPeopleRef.current.find(p => p.id === match.personId);
-
-                            if (matchedPerson) {
-                                const convo = await getLatestConversation(matchedPerson.id!);
-                                setDetectedPerson({
-                                    ...matchedPerson,
-                                    lastConvo: convo?.summary || 'No recent conversations recorded.'
-                                });
-                                setRecognitionStatus(`Recognized (${Math.round(match.similarity * 100)}%)`);
-                            }
-                        }
-                    } else {
-                        // Face detected but not recognized
-                        setRecognitionStatus('Unknown face');
-                        if (lastMatchedIdRef.current !== null) {
-                            lastMatchedIdRef.current = null;
-                            setDetectedPerson(null);
-                        }
-                    }
+            // Nothing new to recognize: a paused recording, or a camera that is still switching over
+            const isRecording = recordingRef.current !== null;
+            const video = videoRef.current;
+            if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || (isRecording && video.paused)) {
+                setTimeout(recognize, 200);
+                return;
+            }
+
+            try {
+                const frameTime = video.currentTime;
+                const faces = await recognizerRef.current.recognizeFrame(video);
+
+                // Vote over recent frames so one bad frame cannot swap the label.
+                // Recordings vote on video time so pausing does not expire anyone.
+                const identities = identityTrackerRef.current.update(faces, isRecording ? frameTime * 1000 : performance.now());
+                if (isRecording) {
+                    timelineRef.current.record(frameTime, identities);
+                    setHasTimeline(!timelineRef.current.isEmpty);
+                } else {
+                    // Log real visits only, not replays of recorded clips
+                    encounterLogRef.current?.observe(identities);
+                }
+
+                for (const identity of identities) {
+                    const position = settingsRef.current.mirror ? mirrorFacePosition(identity.position) : identity.position;
+                    targetPosRef.current.set(identity.personId, labelAnchorForFace(position));
+                }
+                await updateRecognizedPeople(new Set(identities.map(identity => identity.personId)));
+
+                // Keep unknown faces for the caregiver's "Unrecognized visitors" inbox.
+                // Recordings are skipped: replaying a clip would file the same stranger again and again.
+                const now = Date.now();
+                if (!isRecording && now - lastUnknownSaveRef.current > UNKNOWN_SAVE_INTERVAL_MS) {
+                    const unknownFaces = identityTrackerRef.current.unknownFaces().filter(face => face.descriptor);
+                    if (unknownFaces.length > 0) lastUnknownSaveRef.current = now;
+                    for (const face of unknownFaces) saveUnknownFace(video, face);
+                }
+
+                setIsTracking(faces.length > 0);
+                if (identities.length > 1) {
+                    setRecognitionStatus(`Recognized ${identities.length} people`);
+                } else if (identities.length === 1) {
+                    setRecognitionStatus(`Recognized (${Math.round(identities[0].similarity * 100)}%)`);
+                } else if (faces.length === 0) {
+                    setRecognitionStatus('Scanning...');
                 } else if (storedDescriptorsRef.current.length === 0) {
                     setRecognitionStatus('No faces registered');
                 } else {
-                    setRecognitionStatus('Analyzing face...');
+                    setRecognitionStatus(faces.length > 1 ? `${faces.length} unknown faces` : 'Unknown face');
                 }
-            } else {
-                setIsTracking(false);
-                setRecognitionStatus('Scanning...');
-            }
 
-            // Continue recognition loop (slower for recognition to reduce CPU)
-            setTimeout(recognize, 200);
+                // Back off while nobody is in frame
+                emptyFramesRef.current = faces.length > 0 ? 0 : emptyFramesRef.current + 1;
+            } catch (error) {
+                console.error('Error recognizing frame:', error);
+            } finally {
+                // Continue recognition loop, even after a bad frame
+                setTimeout(recognize, recognitionDelay(settingsRef.current.recognitionIntervalMs, emptyFramesRef.current));
+            }
         };
 
         recognize();
     };
 
+    const saveUnknownFace = async (video: HTMLVideoElement, face: RecognizedFace) => {
+        try {
+            const snapshot = await cropFaceSnapshot(video, face.position);
+            if (snapshot) await recordUnknownSighting(face.descriptor!, snapshot);
+        } catch (error) {
+            console.error('Error saving unknown face:', error);
+        }
+    };
+
+    // Sync overlays with the set of people recognized in the latest frame
+    const updateRecognizedPeople = async (seenIds: Set<number>) => {
+        const previousIds = lastMatchedIdsRef.current;
+        const newIds = [...seenIds].filter(personId => !previousIds.has(personId));
+        const goneIds = [...previousIds].filter(personId => !seenIds.has(personId));
+        if (newIds.length === 0 && goneIds.length === 0) return;
+
+        lastMatchedIdsRef.current = seenIds;
+        for (const personId of goneIds) {
+            targetPosRef.current.delete(personId);
+            smoothPosRef.current.delete(personId);
+
+            // Offer to log the visit once someone who stayed a while walks out of frame
+            const departed = detectedPeopleRef.current.find(p => p.id === personId);
+            if (departed && !recordingRef.current && Date.now() - departed.shownAt >= MIN_LOGGED_VISIT_MS) {
+                offerVisitLog(personId, new Date(departed.shownAt));
+            }
+        }
+
+        const arrivals = await Promise.all(newIds.map(async (personId): Promise<DetectedPerson | null> => {
+            const matchedPerson = allPeopleRef.current.find(p => p.id === personId);
+            if (!matchedPerson) return null;
+            const recent = await getRecentConversations(personId, MAX_RECENT_CONVERSATIONS);
+
+            // Speak the name (or play their recorded greeting) for patients who cannot read the label
+            announcerRef.current.announce(
+                personId,
+                announcementFor(matchedPerson, recent[0]?.summary),
+                settingsRef.current.speech,
+                matchedPerson.voiceClipBlob
+            );
+
+            return {
+                ...matchedPerson,
+                cards: buildOverlayCards(matchedPerson, recent, settingsRef.current.cards),
+                shownAt: Date.now(),
+                // Recorded relationships explain who they are; the typed relation covers everyone else
+                relationText: relationPhrase(personId, allPeopleRef.current, relationshipsRef.current) || matchedPerson.relation
+            };
+        }));
+
+        setDetectedPeople(prev => [
+            ...prev.filter(p => seenIds.has(p.id!)),
+            ...arrivals.filter((p): p is DetectedPerson => p !== null)
+        ]);
+    };
+
+    const offerVisitLog = (personId: number, startedAt: Date) => {
+        const person = allPeopleRef.current.find(p => p.id === personId);
+        if (!person) return;
+        const endedAt = new Date();
+
+        setPendingVisits(prev => {
+            const existing = prev.find(visit => visit.person.id === personId);
+            // Notes already started for this person carry on, stretching the visit to cover the return
+            const draft: VisitDraft = existing?.draft.notes.trim()
+                ? { ...existing.draft, endedAt, updatedAt: endedAt }
+                : { personId, startedAt, endedAt, notes: '', updatedAt: endedAt };
+            return [...prev.filter(visit => visit.person.id !== personId), { person, draft }];
+        });
+    };
+
+    const changeVisitNotes = (update: (notes: string) => string) => {
+        setLoggingVisit(prev => prev && {
+            ...prev,
+            draft: { ...prev.draft, notes: update(prev.draft.notes), updatedAt: new Date() }
+        });
+    };
+
+    const closeVisitLog = () => {
+        const visit = loggingVisit;
+        if (visit) setPendingVisits(prev => prev.map(p => p.person.id === visit.person.id ? visit : p));
+        setLoggingVisit(null);
+    };
+
+    const visitLogged = () => {
+        const personId = loggingVisit?.person.id;
+        setPendingVisits(prev => prev.filter(visit => visit.person.id !== personId));
+        setLoggingVisit(null);
+    };
+
+    const dismissVisit = (visit: PendingVisit) => {
+        setPendingVisits(prev => prev.filter(p => p !== visit));
+        deleteVisitDraft(visit.draft.personId).catch(error => console.error('Error discarding visit notes:', error));
+    };
+
+    // Position an overlay (percent of the view) without going through React state
+    const placeOverlay = (element: HTMLDivElement, pos: OverlayPoint) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const x = (pos.x / 100) * container.clientWidth;
+        const y = (pos.y / 100) * container.clientHeight;
+        element.style.transform = `translate3d(${x}px, ${y}px, 0)`;
+    };
+
+    // Ease every label towards its face and lay them out without overlaps
+    const stepOverlays = () => {
+        for (const [personId, target] of targetPosRef.current) {
+            const smooth = smoothPosRef.current.get(personId);
+            if (!smooth) {
+                // Start new overlays directly on their face
+                smoothPosRef.current.set(personId, { ...target });
+                continue;
+            }
+            smooth.x += (target.x - smooth.x) * 0.12;
+            smooth.y += (target.y - smooth.y) * 0.12;
+        }
+
+        placedPosRef.current = resolveLabelOverlaps(smoothPosRef.current);
+        for (const [personId, element] of overlayElementsRef.current) {
+            // Labels with no room left are hidden until a spot frees up
+            const pos = placedPosRef.current.get(personId);
+            element.style.visibility = pos ? '' : 'hidden';
+            if (pos) placeOverlay(element, pos);
+        }
+    };
+
     // Smooth animation loop (runs every frame)
     const startAnimationLoop = () => {
         const animate = () => {
-            smoothPosRef.current.x += (targetPosRef.current.x - smoothPosRef.current.x) * 0.12;
-            smoothPosRef.current.y += (targetPosRef.current.y - smoothPosRef.current.y) * 0.12;
-            setOverlayPos({ ...smoothPosRef.current });
+            // A headset session steps the overlays from its own frame loop
+            if (!stereoRendererRef.current?.immersive) stepOverlays();
             animationRef.current = requestAnimationFrame(animate);
         };
 
@@ -220,23 +607,240 @@ export function ARViewer() {
     };
 
     const stopVideo = () => {
+        cameraWantedRef.current = false;
         if (videoRef.current?.srcObject) {
             const stream = videoRef.current.srcObject as MediaStream;
             stream.getTracks().forEach(track => track.stop());
             setCameraActive(false);
             setIsTracking(false);
             recognitionLoopRef.current = false;
+            identityTrackerRef.current.reset();
+            encounterLogRef.current?.closeAll();
+        }
+    };
+
+    // Drop every label and vote, e.g. after switching source or jumping within a recording
+    const clearOverlays = () => {
+        identityTrackerRef.current.reset();
+        emptyFramesRef.current = 0;
+        targetPosRef.current.clear();
+        smoothPosRef.current.clear();
+        lastMatchedIdsRef.current = new Set();
+        setDetectedPeople([]);
+        setIsTracking(false);
+    };
+
+    // Run the same recognition on an uploaded clip instead of the camera
+    const openRecording = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        const video = videoRef.current;
+        if (!file || !video) return;
+
+        cameraWantedRef.current = false;
+        if (video.srcObject) {
+            (video.srcObject as MediaStream).getTracks().forEach(track => track.stop());
+            video.srcObject = null;
+            setCameraActive(false);
+            encounterLogRef.current?.closeAll();
+        }
+        if (recordingRef.current) URL.revokeObjectURL(recordingRef.current.url);
+
+        const next = { name: file.name, url: URL.createObjectURL(file) };
+        recordingRef.current = next;
+        setRecording(next);
+        timelineRef.current.reset();
+        setHasTimeline(false);
+        setPlaybackTime(0);
+        clearOverlays();
+
+        video.src = next.url;
+        startFaceRecognition();
+    };
+
+    const closeRecording = async () => {
+        const video = videoRef.current;
+        if (video) {
+            video.pause();
+            video.removeAttribute('src');
+            video.load();
         }
+        if (recordingRef.current) URL.revokeObjectURL(recordingRef.current.url);
+        recordingRef.current = null;
+        setRecording(null);
+        clearOverlays();
+        await startCamera(isMountedRef);
     };
 
-    const toggleRayBanMode = () => {
-        setIsRayBanMode(!isRayBanMode);
+    const togglePlayback = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) video.play().catch(error => console.error('Error playing recording:', error));
+        else video.pause();
+    };
+
+    const exportTimeline = () => {
+        const nameFor = (personId: number) => allPeopleRef.current.find(p => p.id === personId)?.name ?? `Person ${personId}`;
+        const blob = new Blob([timelineRef.current.toCsv(nameFor)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${recording?.name.replace(/\.[^.]+$/, '') ?? 'recording'}-timeline.csv`;
+        link.click();
+        // Some browsers start the download after click() returns
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    };
+
+    // Apply a settings change straight away and remember it on this device
+    const handleSettingsChange = async (next: ARSettings) => {
+        const previous = settingsRef.current;
+        settingsRef.current = next;
+        setSettings(next);
+
+        if (next.detector !== previous.detector) {
+            recognizerRef.current?.setDetectorOptions(next.detector);
+        }
+        if (next.matchStrategy !== previous.matchStrategy) {
+            recognizerRef.current?.setMatchStrategy(next.matchStrategy);
+        }
+        if (next.mirror !== previous.mirror) {
+            clearOverlays();
+        }
+        if (next.speech.quiet && !previous.speech.quiet) {
+            stopSpeaking();
+        }
+        if (deviceNameFor(next) !== deviceNameFor(previous)) {
+            encounterLogRef.current?.closeAll();
+            encounterLogRef.current = new EncounterLog(deviceNameFor(next));
+        }
+        const cameraChanged = next.cameraDeviceId !== previous.cameraDeviceId || next.resolution !== previous.resolution;
+        if (cameraChanged && videoRef.current?.srcObject) {
+            (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
+            videoRef.current.srcObject = null;
+            clearOverlays();
+            startCamera(isMountedRef);
+        }
+
+        try {
+            await saveARSettings(next);
+        } catch (error) {
+            console.error('Error saving AR settings:', error);
+        }
+    };
+
+    // Lock the device to this screen until a caregiver exits
+    const startKiosk = async (exitMethod: KioskExitMethod, pin: string) => {
+        // Fullscreen must be requested while the tap is still being handled
+        enterFullscreen();
+        try {
+            const next: KioskSettings = {
+                enabled: true,
+                exitMethod,
+                pinHash: exitMethod === 'pin' ? await hashPin(pin) : '',
+            };
+            await saveKioskSettings(next);
+            setKiosk(next);
+            setShowSettings(false);
+            wakeLockRef.current.acquire();
+        } catch (error) {
+            console.error('Error starting kiosk mode:', error);
+            exitFullscreen();
+        }
+    };
+
+    const exitKiosk = async () => {
+        try {
+            await saveKioskSettings({ ...kiosk, enabled: false });
+        } catch (error) {
+            console.error('Error leaving kiosk mode:', error);
+            return;
+        }
+        wakeLockRef.current.release();
+        await exitFullscreen();
+        navigate('/');
+    };
+
+    // WebGL renderer for the head-mounted views, created on first use
+    const getStereoRenderer = (): StereoRenderer | null => {
+        if (!stereoRendererRef.current && stereoCanvasRef.current) {
+            try {
+                stereoRendererRef.current = new StereoRenderer(stereoCanvasRef.current);
+            } catch (error) {
+                console.error('Error creating stereo view:', error);
+                setRecognitionStatus('Headset view unavailable');
+            }
+        }
+        return stereoRendererRef.current;
+    };
+
+    // The labels currently on screen, for drawing into the stereo view
+    const stereoLabels = (): StereoLabel[] => detectedPeopleRef.current.flatMap(person => {
+        const position = placedPosRef.current.get(person.id!);
+        if (!position) return [];
+        const card = person.cards[currentCardIndex(person.cards.length, Date.now() - person.shownAt, settingsRef.current.cards.secondsPerCard)];
+        return [{ position, name: person.name, relation: person.relationText, summary: card && `${card.title}: ${card.text}` }];
+    });
+
+    const toggleRayBanMode = async () => {
+        if (isRayBanMode) {
+            stereoRendererRef.current?.exitImmersive();
+            setIsRayBanMode(false);
+            return;
+        }
+
+        const renderer = getStereoRenderer();
+        const video = videoRef.current;
+        if (!renderer || !video) return;
+        setShowHeadsetControls(false);
+        setIsRayBanMode(true);
+        if (!xrSupported) return;
+
+        // Prefer a real headset session; split-screen takes over if it cannot start
+        setIsImmersive(true);
+        try {
+            await renderer.enterImmersive(
+                video,
+                () => {
+                    stepOverlays();
+                    return { labels: stereoLabels(), mirror: settingsRef.current.mirror };
+                },
+                () => {
+                    setIsImmersive(false);
+                    setIsRayBanMode(false);
+                }
+            );
+        } catch (error) {
+            console.error('Error starting headset session, using split-screen:', error);
+            setIsImmersive(false);
+        }
     };
 
     return (
-        <div className={`ar-fullscreen ${isRayBanMode ? 'rayban-mode' : ''}`}>
+        <div
+            ref={containerRef}
+            className={`ar-fullscreen ${isRayBanMode ? 'rayban-mode' : ''} ${showHeadsetControls ? 'show-controls' : ''}`}
+            onPointerDown={() => kiosk.enabled && enterFullscreen()}
+        >
             {/* Camera Feed */}
-            <video ref={videoRef} className="ar-camera-feed" autoPlay playsInline muted />
+            <video
+                ref={videoRef}
+                className={`ar-camera-feed ${settings.mirror ? 'mirrored' : ''}`}
+                autoPlay
+                playsInline
+                muted
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onLoadedMetadata={(e) => setPlaybackDuration(e.currentTarget.duration || 0)}
+                onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                onSeeking={() => recordingRef.current && clearOverlays()}
+            />
+
+            {/* Side-by-side stereo view for Ray-Ban mode; tap to bring up the controls */}
+            <canvas
+                ref={stereoCanvasRef}
+                className="stereo-view"
+                onClick={() => setShowHeadsetControls(!showHeadsetControls)}
+            />
 
             {/* Connection Status */}
             <div className={`connection-status ${isTracking ? 'tracking' : ''}`}>
@@ -244,60 +848,175 @@ export function ARViewer() {
                 {recognitionStatus}
             </div>
 
-            {/* Floating Person Info - Follows Face Position */}
-            {detectedPerson && (
-                <div
-                    className="person-overlay"
-                    style={{
-                        left: `${overlayPos.x}%`,
-                        top: `${overlayPos.y}%`,
-                    }}
-                >
-                    {/* Name Row - Separate badges */}
-                    <div className="name-row">
-                        <div className="name-badge">
-                            <span className="person-name">{detectedPerson.name}</span>
-                        </div>
-                        <div className="relation-badge">
-                            <span className="person-relation">{detectedPerson.relation}</span>
+            {/* Day, time and place while nobody is recognized; fades out when someone is */}
+            <OrientationCard settings={orientation} visible={detectedPeople.length === 0} />
+
+            {/* Floating Person Info - One per recognized face, follows its position */}
+            {detectedPeople.map((detectedPerson) => {
+                const personId = detectedPerson.id!;
+
+                return (
+                    <div
+                        key={personId}
+                        className="person-overlay"
+                        ref={(element) => {
+                            if (!element) {
+                                overlayElementsRef.current.delete(personId);
+                                return;
+                            }
+                            overlayElementsRef.current.set(personId, element);
+                            const pos = smoothPosRef.current.get(personId);
+                            if (pos) placeOverlay(element, pos);
+                        }}
+                    >
+                        {/* Name Row - Separate badges */}
+                        <div className="name-row">
+                            <div className={`name-badge ${isBirthday(detectedPerson) ? 'birthday' : ''}`}>
+                                <span className="person-name">
+                                    {isBirthday(detectedPerson) && '🎂 '}{detectedPerson.name}
+                                </span>
+                            </div>
+                            <div className="relation-badge">
+                                <span className="person-relation">{detectedPerson.relationText}</span>
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Conversation Summary */}
-                    <div className="convo-bubble">
-                        <p>{detectedPerson.lastConvo}</p>
+                        {/* Conversation Summary */}
+                        <PersonCards
+                            cards={detectedPerson.cards}
+                            shownAt={detectedPerson.shownAt}
+                            secondsPerCard={settings.cards.secondsPerCard}
+                        />
                     </div>
+                );
+            })}
+
+            {/* Log a visit after someone leaves; drafts stay until saved or dismissed */}
+            {pendingVisits.length > 0 && (
+                <div className="visit-prompts">
+                    {pendingVisits.map(visit => (
+                        <div key={visit.draft.personId} className="visit-prompt">
+                            <button className="visit-prompt-open" onClick={() => setLoggingVisit(visit)}>
+                                📝 Log visit with {visit.person.name}
+                                {visit.draft.notes.trim() && <span className="visit-prompt-draft">Draft</span>}
+                            </button>
+                            <button
+                                className="visit-prompt-dismiss"
+                                onClick={() => dismissVisit(visit)}
+                                aria-label={`Dismiss visit with ${visit.person.name}`}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {loggingVisit && (
+                <VisitLogSheet
+                    person={loggingVisit.person}
+                    draft={loggingVisit.draft}
+                    onNotesChange={changeVisitNotes}
+                    onSaved={visitLogged}
+                    onClose={closeVisitLog}
+                />
+            )}
+
+            {/* Recording Playback Controls */}
+            {recording && (
+                <div className="playback-bar">
+                    <button className="playback-toggle" onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                        {isPlaying ? '❚❚' : '▶'}
+                    </button>
+                    <input
+                        type="range"
+                        className="playback-scrubber"
+                        min={0}
+                        max={playbackDuration || 0}
+                        step={0.1}
+                        value={playbackTime}
+                        onChange={(e) => {
+                            if (videoRef.current) videoRef.current.currentTime = parseFloat(e.target.value);
+                        }}
+                    />
+                    <span className="playback-time">
+                        {formatPlaybackTime(playbackTime)} / {formatPlaybackTime(playbackDuration)}
+                    </span>
+                    <button className="playback-export" onClick={exportTimeline} disabled={!hasTimeline}>
+                        Export Timeline
+                    </button>
                 </div>
             )}
 
             {/* Bottom Toolbar */}
             <div className="bottom-toolbar">
-                <Link to="/" className="logo-btn">N</Link>
+                {kiosk.enabled ? (
+                    <KioskExit settings={kiosk} onExit={exitKiosk} />
+                ) : (
+                    <Link to="/" className="logo-btn">N</Link>
+                )}
 
                 <div className="center-controls">
-                    <button className="control-btn" onClick={stopVideo}>
-                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <path d="M23 7l-7 5 7 5V7z" />
-                            <rect x="1" y="5" width="15" height="14" rx="2" />
-                            {!cameraActive && <line x1="1" y1="1" x2="23" y2="23" stroke="currentColor" strokeWidth="2" />}
-                        </svg>
-                        <span>Stop Video</span>
+                    {kiosk.enabled ? null : recording ? (
+                        <button className="control-btn" onClick={closeRecording}>
+                            <span>Back to Camera</span>
+                        </button>
+                    ) : (
+                        <button className="control-btn" onClick={stopVideo}>
+                            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M23 7l-7 5 7 5V7z" />
+                                <rect x="1" y="5" width="15" height="14" rx="2" />
+                                {!cameraActive && <line x1="1" y1="1" x2="23" y2="23" stroke="currentColor" strokeWidth="2" />}
+                            </svg>
+                            <span>Stop Video</span>
+                        </button>
+                    )}
+
+                    {!kiosk.enabled && (
+                        <label className="control-btn">
+                            <span>{recording ? 'Open Another Recording' : 'Play Recording'}</span>
+                            <input type="file" accept="video/*" onChange={openRecording} style={{ display: 'none' }} />
+                        </label>
+                    )}
+
+                    <button
+                        className="control-btn"
+                        onClick={() => {
+                            const current = settingsRef.current;
+                            handleSettingsChange({ ...current, speech: { ...current.speech, quiet: !current.speech.quiet } });
+                        }}
+                        aria-pressed={!settings.speech.quiet}
+                    >
+                        <span>{settings.speech.quiet ? '🔇 Quiet' : '🔊 Speak Names'}</span>
                     </button>
 
                     <button className={`control-btn primary ${isRayBanMode ? 'active' : ''}`} onClick={toggleRayBanMode}>
-                        Enter Ray-Ban Mode
+                        {isRayBanMode ? 'Exit Ray-Ban Mode' : 'Enter Ray-Ban Mode'}
                     </button>
                 </div>
 
-                <div className="spacer"></div>
+                {kiosk.enabled ? (
+                    <div className="spacer"></div>
+                ) : (
+                    <button
+                        className={`settings-btn ${showSettings ? 'active' : ''}`}
+                        onClick={() => setShowSettings(!showSettings)}
+                        aria-label="Settings"
+                    >
+                        ⚙️
+                    </button>
+                )}
             </div>
 
-            {/* Ray-Ban Frame Overlay */}
-            {isRayBanMode && (
-                <div className="rayban-frame">
-                    <div className="frame-edge left"></div>
-                    <div className="frame-edge right"></div>
-                </div>
+            {/* Camera and Recognition Settings */}
+            {showSettings && !kiosk.enabled && (
+                <ARSettingsPanel
+                    settings={settings}
+                    cameras={cameras}
+                    onChange={handleSettingsChange}
+                    onClose={() => setShowSettings(false)}
+                    onStartKiosk={startKiosk}
+                />
             )}
         </div>
     );
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { getStats, getAllPeople, type Person, type Conversation } from '../db/database';
 import { checkGeminiConnection } from '../services/gemini';
+import { VisitAnalytics } from '../components/VisitAnalytics';
 import './Dashboard.css';
 
 interface Stats {
@@ -137,6 +138,9 @@ export function Dashboard() {
                 </section>
             )}
 
+            {/* Visit Analytics */}
+            {people.length > 0 && <VisitAnalytics people={people} />}
+
             {/* Getting Started */}
             {people.length === 0 && (
                 <section className="dashboard-section">
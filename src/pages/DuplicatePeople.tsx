@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    getAllPeople,
+    getDescriptorGallery,
+    getConversationsForPerson,
+    mergePeople,
+    type Person
+} from '../db/database';
+import { findDuplicatePairs } from '../services/duplicates';
+import './DuplicatePeople.css';
+
+interface DuplicatePair {
+    first: Person;
+    second: Person;
+    similarity: number;
+}
+
+export function DuplicatePeople() {
+    const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+    const [conversationCounts, setConversationCounts] = useState<Map<number, number>>(new Map());
+    const [loading, setLoading] = useState(true);
+    const [merging, setMerging] = useState(false);
+
+    useEffect(() => {
+        scan();
+    }, []);
+
+    async function scan() {
+        try {
+            const [people, gallery] = await Promise.all([getAllPeople(), getDescriptorGallery()]);
+            const byId = new Map(people.map(person => [person.id!, person]));
+
+            const found = findDuplicatePairs(gallery)
+                .filter(pair => byId.has(pair.firstId) && byId.has(pair.secondId))
+                .map(pair => ({
+                    first: byId.get(pair.firstId)!,
+                    second: byId.get(pair.secondId)!,
+                    similarity: pair.similarity
+                }));
+
+            const ids = [...new Set(found.flatMap(pair => [pair.first.id!, pair.second.id!]))];
+            const counts = await Promise.all(ids.map(async id => [id, (await getConversationsForPerson(id)).length] as const));
+
+            setPairs(found);
+            setConversationCounts(new Map(counts));
+        } catch (error) {
+            console.error('Error scanning for duplicates:', error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleMerge(keep: Person, merge: Person) {
+        setMerging(true);
+        try {
+            await mergePeople(keep.id!, merge.id!);
+            await scan();
+        } catch (error) {
+            console.error('Error merging people:', error);
+        } finally {
+            setMerging(false);
+        }
+    }
+
+    function renderPerson(person: Person, other: Person) {
+        return (
+            <div className="duplicate-person">
+                <img src={person.photoUrl} alt={person.name} className="duplicate-person-photo" />
+                <Link to={`/people/${person.id}`} className="duplicate-person-name">{person.name}</Link>
+                <span className="duplicate-person-relation">{person.relation}</span>
+                <span className="duplicate-person-meta">
+                    {conversationCounts.get(person.id!) ?? 0} conversations
+                </span>
+                <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleMerge(person, other)}
+                    disabled={merging}
+                >
+                    Keep {person.name}
+                </button>
+            </div>
+        );
+    }
+
+    if (loading) {
+        return (
+            <div className="loading-container">
+                <div className="spinner"></div>
+                <p>Scanning for duplicates...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="duplicates-page">
+            <Link to="/people" className="back-link">
+                ← Back to People
+            </Link>
+
+            <header className="page-header">
+                <h1 className="page-title">Possible Duplicates</h1>
+                <p className="page-subtitle">
+                    People whose photos look like the same face. Merging keeps one record and moves all conversations and photos to it.
+                </p>
+            </header>
+
+            {pairs.length > 0 ? (
+                <div className="duplicate-pairs">
+                    {pairs.map((pair) => (
+                        <div key={`${pair.first.id}-${pair.second.id}`} className="duplicate-pair glass-card">
+                            {renderPerson(pair.first, pair.second)}
+                            <div className="duplicate-pair-score">
+                                <span className="duplicate-pair-value">{Math.round(pair.similarity * 100)}%</span>
+                                <span className="duplicate-pair-label">similar</span>
+                            </div>
+                            {renderPerson(pair.second, pair.first)}
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="empty-state">
+                    <div className="empty-state-icon">✨</div>
+                    <h3 className="empty-state-title">No duplicates found</h3>
+                    <p className="empty-state-description">Everyone in your list looks like a different person.</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getAllPeople, getDescriptorGallery, getSetting, saveSetting, type Person } from '../db/database';
+import { DEFAULT_MATCH_THRESHOLDS, type MatchThresholds } from '../services/faceDetection';
+import { getFaceRecognizer } from '../services/faceRecognizer';
+import {
+    UNKNOWN_LABEL,
+    scoreSamples,
+    confusionMatrix,
+    errorRates,
+    sweepThresholds,
+    recommendGlobalThreshold,
+    recommendPerPersonThresholds,
+    type TestSample
+} from '../services/evaluation';
+import './Evaluation.css';
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 200;
+
+export function Evaluation() {
+    const [people, setPeople] = useState<Person[]>([]);
+    const [gallery, setGallery] = useState<Array<{ id: number; descriptors: number[][] }>>([]);
+    const [savedThresholds, setSavedThresholds] = useState<MatchThresholds>(DEFAULT_MATCH_THRESHOLDS);
+    const [samples, setSamples] = useState<TestSample[]>([]);
+    const [threshold, setThreshold] = useState(DEFAULT_MATCH_THRESHOLDS.global);
+    const [processing, setProcessing] = useState<number | null>(null);
+    const [skipped, setSkipped] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        async function loadData() {
+            try {
+                const [peopleData, galleryData, thresholds] = await Promise.all([
+                    getAllPeople(),
+                    getDescriptorGallery(),
+                    getSetting('matchThresholds', DEFAULT_MATCH_THRESHOLDS)
+                ]);
+                setPeople(peopleData);
+                setGallery(galleryData);
+                setSavedThresholds(thresholds);
+                setThreshold(thresholds.global);
+            } catch (error) {
+                console.error('Error loading evaluation data:', error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        loadData();
+    }, []);
+
+    const scored = useMemo(() => scoreSamples(samples, gallery), [samples, gallery]);
+    const rates = useMemo(() => sweepThresholds(scored), [scored]);
+    const recommendedGlobal = useMemo(() => recommendGlobalThreshold(rates), [rates]);
+    const recommendedPerPerson = useMemo(() => recommendPerPersonThresholds(scored), [scored]);
+    const current = useMemo(() => errorRates(scored, { global: threshold, perPerson: {} }), [scored, threshold]);
+    const matrix = useMemo(() => confusionMatrix(scored, { global: threshold, perPerson: {} }), [scored, threshold]);
+
+    const labels = [...people.map(person => ({ id: person.id!, name: person.name })), { id: UNKNOWN_LABEL, name: 'Unknown' }];
+
+    async function handleAddTestPhotos(label: number, e: React.ChangeEvent<HTMLInputElement>) {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setProcessing(label);
+        try {
+            await getFaceRecognizer().loadModels();
+            const added: TestSample[] = [];
+            let missed = 0;
+            for (const file of files) {
+                const descriptor = await getFaceRecognizer().extractDescriptor(file);
+                if (descriptor) added.push({ label, descriptor });
+                else missed++;
+            }
+            setSamples(prev => [...prev, ...added]);
+            setSkipped(prev => prev + missed);
+        } catch (error) {
+            console.error('Error loading test photos:', error);
+        } finally {
+            setProcessing(null);
+        }
+    }
+
+    async function handleSave(thresholds: MatchThresholds) {
+        try {
+            await saveSetting('matchThresholds', thresholds);
+            setSavedThresholds(thresholds);
+            setThreshold(thresholds.global);
+            setSaved(true);
+        } catch (error) {
+            console.error('Error saving thresholds:', error);
+        }
+    }
+
+    function chartPoints(key: 'falseAcceptRate' | 'falseRejectRate') {
+        if (rates.length < 2) return '';
+        const first = rates[0].threshold;
+        const last = rates[rates.length - 1].threshold;
+        return rates.map(rate => {
+            const x = ((rate.threshold - first) / (last - first)) * CHART_WIDTH;
+            const y = CHART_HEIGHT - rate[key] * CHART_HEIGHT;
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join(' ');
+    }
+
+    function chartX(value: number) {
+        const first = rates[0]?.threshold ?? 0;
+        const last = rates[rates.length - 1]?.threshold ?? 1;
+        return ((value - first) / (last - first)) * CHART_WIDTH;
+    }
+
+    if (loading) {
+        return (
+            <div className="loading-container">
+                <div className="spinner"></div>
+                <p>Loading...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="evaluation-page">
+            <header className="page-header">
+                <h1 className="page-title">Recognition Accuracy</h1>
+                <p className="page-subtitle">
+                    Test enrolled photos against labelled test photos and calibrate how strict matching is
+                </p>
+            </header>
+
+            {/* Test Photos */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Test Photos</h2>
+                <p className="evaluation-hint">
+                    Add photos that were not used for enrollment. Add strangers under "Unknown" to measure false accepts.
+                    {skipped > 0 && ` ${skipped} photo(s) had no detectable face and were skipped.`}
+                </p>
+                <div className="test-photo-list">
+                    {labels.map((label) => (
+                        <div key={label.id} className="test-photo-row glass-card">
+                            <span className="test-photo-name">{label.name}</span>
+                            <span className="test-photo-count">
+                                {samples.filter(sample => sample.label === label.id).length} photos
+                            </span>
+                            <label className={`btn btn-secondary btn-sm ${processing !== null ? 'disabled' : ''}`}>
+                                {processing === label.id ? 'Processing...' : 'Add Photos'}
+                                <input
+                                    type="file"
+                                    accept="image/*"
+                                    multiple
+                                    disabled={processing !== null}
+                                    onChange={(e) => handleAddTestPhotos(label.id, e)}
+                                    style={{ display: 'none' }}
+                                />
+                            </label>
+                        </div>
+                    ))}
+                </div>
+            </section>
+
+            {scored.length > 0 && (
+                <>
+                    {/* Threshold Sweep */}
+                    <section className="dashboard-section">
+                        <h2 className="section-title">Error Rates by Threshold</h2>
+                        <svg
+                            className="rates-chart"
+                            viewBox={`-30 -10 ${CHART_WIDTH + 40} ${CHART_HEIGHT + 40}`}
+                            role="img"
+                            aria-label="False accept and false reject rates across thresholds"
+                        >
+                            <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} className="chart-axis" />
+                            <line x1={0} y1={0} x2={0} y2={CHART_HEIGHT} className="chart-axis" />
+                            <text x={-6} y={4} className="chart-label" textAnchor="end">100%</text>
+                            <text x={-6} y={CHART_HEIGHT} className="chart-label" textAnchor="end">0%</text>
+                            <text x={0} y={CHART_HEIGHT + 16} className="chart-label">{rates[0].threshold}</text>
+                            <text x={CHART_WIDTH} y={CHART_HEIGHT + 16} className="chart-label" textAnchor="end">
+                                {rates[rates.length - 1].threshold}
+                            </text>
+                            <polyline points={chartPoints('falseAcceptRate')} className="chart-line far" />
+                            <polyline points={chartPoints('falseRejectRate')} className="chart-line frr" />
+                            <line x1={chartX(threshold)} y1={0} x2={chartX(threshold)} y2={CHART_HEIGHT} className="chart-marker" />
+                            {recommendedGlobal !== null && (
+                                <line
+                                    x1={chartX(recommendedGlobal)}
+                                    y1={0}
+                                    x2={chartX(recommendedGlobal)}
+                                    y2={CHART_HEIGHT}
+                                    className="chart-marker recommended"
+                                />
+                            )}
+                        </svg>
+                        <div className="chart-legend">
+                            <span className="legend-item far">False accept</span>
+                            <span className="legend-item frr">False reject</span>
+                            <span className="legend-item recommended">Recommended</span>
+                        </div>
+
+                        <div className="threshold-control">
+                            <label className="input-label">Threshold: {threshold.toFixed(2)}</label>
+                            <input
+                                type="range"
+                                min={0.2}
+                                max={0.8}
+                                step={0.02}
+                                value={threshold}
+                                onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                            />
+                            <span className="threshold-rates">
+                                False accept {(current.falseAcceptRate * 100).toFixed(1)}% ·
+                                False reject {(current.falseRejectRate * 100).toFixed(1)}%
+                            </span>
+                        </div>
+                    </section>
+
+                    {/* Confusion Matrix */}
+                    <section className="dashboard-section">
+                        <h2 className="section-title">Confusion Matrix</h2>
+                        <div className="matrix-wrapper">
+                            <table className="confusion-matrix">
+                                <thead>
+                                    <tr>
+                                        <th>Actual ↓ / Predicted →</th>
+                                        {labels.map(label => <th key={label.id}>{label.name}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {labels.filter(row => matrix.has(row.id)).map((row) => (
+                                        <tr key={row.id}>
+                                            <th>{row.name}</th>
+                                            {labels.map((column) => {
+                                                const count = matrix.get(row.id)?.get(column.id) ?? 0;
+                                                return (
+                                                    <td
+                                                        key={column.id}
+                                                        className={count === 0 ? '' : row.id === column.id ? 'correct' : 'wrong'}
+                                                    >
+                                                        {count}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </section>
+
+                    {/* Recommendations */}
+                    <section className="dashboard-section">
+                        <h2 className="section-title">Recommended Thresholds</h2>
+                        <div className="recommendations glass-card">
+                            <p>
+                                Currently used: global {savedThresholds.global.toFixed(2)}
+                                {Object.keys(savedThresholds.perPerson).length > 0 &&
+                                    `, with ${Object.keys(savedThresholds.perPerson).length} per-person override(s)`}
+                            </p>
+                            {recommendedGlobal !== null && (
+                                <p>Recommended global threshold: <strong>{recommendedGlobal.toFixed(2)}</strong></p>
+                            )}
+                            {Object.keys(recommendedPerPerson).length > 0 && (
+                                <ul className="per-person-list">
+                                    {Object.entries(recommendedPerPerson).map(([personId, value]) => (
+                                        <li key={personId}>
+                                            {people.find(p => p.id === Number(personId))?.name ?? `Person ${personId}`}:
+                                            {' '}<strong>{value.toFixed(2)}</strong>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                            <div className="recommendation-actions">
+                                <button
+                                    className="btn btn-primary btn-sm"
+                                    disabled={recommendedGlobal === null}
+                                    onClick={() => handleSave({ global: recommendedGlobal!, perPerson: {} })}
+                                >
+                                    Use Global Threshold
+                                </button>
+                                <button
+                                    className="btn btn-secondary btn-sm"
+                                    disabled={recommendedGlobal === null || Object.keys(recommendedPerPerson).length === 0}
+                                    onClick={() => handleSave({ global: recommendedGlobal!, perPerson: recommendedPerPerson })}
+                                >
+                                    Use Per-Person Thresholds
+                                </button>
+                                <button
+                                    className="btn btn-ghost btn-sm"
+                                    onClick={() => handleSave(DEFAULT_MATCH_THRESHOLDS)}
+                                >
+                                    Reset to Default
+                                </button>
+                            </div>
+                            {saved && <p className="saved-note">Saved. The AR view uses the new thresholds next time it opens.</p>}
+                        </div>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    PATIENT_ID,
+    getAllPeople,
+    getRelationships,
+    addRelationship,
+    deleteRelationship,
+    type Person,
+    type Relationship,
+    type RelationGender,
+    type RelationModifier,
+    type RelationRole
+} from '../db/database';
+import {
+    MODIFIER_NAMES,
+    RELATION_ROLES,
+    familyGenerations,
+    isFamilyRole,
+    layoutFamilyTree,
+    patientLink,
+    relationName
+} from '../services/relationships';
+import './FamilyTree.css';
+
+const NODE_RADIUS = 36;
+
+// One choice per distinct word, e.g. "daughter", "son", "child"; roles outside the family have no gendered words
+const ROLE_OPTIONS = (Object.keys(RELATION_ROLES) as RelationRole[]).flatMap(role => {
+    const { words } = RELATION_ROLES[role];
+    const genders: RelationGender[] = isFamilyRole(role) ? ['female', 'male', 'neutral'] : ['neutral'];
+    return genders
+        .filter((gender, i) => genders.findIndex(other => words[other] === words[gender]) === i)
+        .map(gender => ({
+            value: `${role}:${gender}`,
+            text: role === 'other' ? 'something else…' : words[gender],
+            family: isFamilyRole(role),
+        }));
+});
+
+interface RelationshipForm {
+    personId: number | null;
+    relativeId: number;
+    role: string; // `${role}:${gender}`
+    modifier: RelationModifier;
+    label: string;
+}
+
+const EMPTY_FORM: RelationshipForm = { personId: null, relativeId: PATIENT_ID, role: 'child:female', modifier: 'none', label: '' };
+
+interface PersonNodeProps {
+    x: number;
+    y: number;
+    person?: Person; // The patient when missing
+    caption: string;
+    clipId: string;
+}
+
+// A round photo with the name and relation underneath
+function PersonNode({ x, y, person, caption, clipId }: PersonNodeProps) {
+    const content = (
+        <g transform={`translate(${x}, ${y})`} className={person ? 'tree-node' : 'tree-node patient'}>
+            <circle r={NODE_RADIUS + 3} className="tree-node-ring" />
+            {person ? (
+                <image
+                    href={person.photoUrl}
+                    x={-NODE_RADIUS}
+                    y={-NODE_RADIUS}
+                    width={NODE_RADIUS * 2}
+                    height={NODE_RADIUS * 2}
+                    clipPath={`url(#${clipId})`}
+                    preserveAspectRatio="xMidYMid slice"
+                />
+            ) : (
+                <text className="tree-node-you" dy="0.35em">You</text>
+            )}
+            <text className="tree-node-name" y={NODE_RADIUS + 20}>{person?.name ?? 'The patient'}</text>
+            {caption && <text className="tree-node-caption" y={NODE_RADIUS + 38}>{caption}</text>}
+        </g>
+    );
+    return person?.id ? <Link to={`/people/${person.id}`}>{content}</Link> : content;
+}
+
+export function FamilyTree() {
+    const [people, setPeople] = useState<Person[]>([]);
+    const [relationships, setRelationships] = useState<Relationship[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [form, setForm] = useState<RelationshipForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    async function loadData() {
+        try {
+            const [peopleData, relationshipsData] = await Promise.all([getAllPeople(), getRelationships()]);
+            setPeople(peopleData);
+            setRelationships(relationshipsData);
+        } catch (error) {
+            console.error('Error loading relationships:', error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const [formRole, formGender] = form.role.split(':') as [RelationRole, RelationGender];
+    const allowedModifiers = RELATION_ROLES[formRole].modifiers;
+    const alreadyLinked = form.personId !== null && relationships.some(r =>
+        (r.personId === form.personId && r.relativeId === form.relativeId) ||
+        (r.personId === form.relativeId && r.relativeId === form.personId)
+    );
+    const canAdd = form.personId !== null && form.personId !== form.relativeId && !alreadyLinked &&
+        (formRole !== 'other' || form.label.trim() !== '');
+
+    async function handleAdd(e: React.FormEvent) {
+        e.preventDefault();
+        if (!canAdd || form.personId === null) return;
+
+        setSaving(true);
+        try {
+            await addRelationship({
+                personId: form.personId,
+                relativeId: form.relativeId,
+                role: formRole,
+                gender: formGender,
+                modifier: allowedModifiers.includes(form.modifier) ? form.modifier : 'none',
+                label: formRole === 'other' ? form.label.trim() : undefined
+            });
+            await loadData();
+            setForm({ ...EMPTY_FORM, relativeId: form.relativeId });
+        } catch (error) {
+            console.error('Error adding relationship:', error);
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function handleDelete(id: number) {
+        try {
+            await deleteRelationship(id);
+            await loadData();
+        } catch (error) {
+            console.error('Error removing relationship:', error);
+        }
+    }
+
+    const personById = (id: number) => people.find(p => p.id === id);
+    const nameOf = (id: number) => personById(id)?.name ?? 'Unknown';
+    // What someone is to the patient, for the node captions
+    const captionFor = (id: number) => {
+        const link = id === PATIENT_ID ? null : patientLink(id, relationships);
+        return link ? `your ${relationName(link)}` : '';
+    };
+
+    if (loading) {
+        return (
+            <div className="loading-container">
+                <div className="spinner"></div>
+                <p>Loading...</p>
+            </div>
+        );
+    }
+
+    const tree = layoutFamilyTree(relationships);
+    const generations = familyGenerations(relationships);
+    const careCircle = people.filter(person => {
+        const link = patientLink(person.id!, relationships);
+        return link && !isFamilyRole(link.role);
+    });
+    const unlinked = people.filter(person =>
+        !generations.has(person.id!) && !careCircle.includes(person) &&
+        !relationships.some(r => r.personId === person.id || r.relativeId === person.id)
+    );
+
+    const circleRadius = Math.max(140, careCircle.length * 28);
+    const circleSize = (circleRadius + NODE_RADIUS + 60) * 2;
+    const nodeAt = (id: number) => tree.nodes.find(node => node.id === id)!;
+
+    return (
+        <div className="family-tree-page">
+            <header className="page-header">
+                <h1 className="page-title">Family Tree</h1>
+                <p className="page-subtitle">
+                    How everyone is related to each other and to the patient. The AR view uses this to explain who someone is.
+                </p>
+            </header>
+
+            {/* Family Tree */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Family</h2>
+                {tree.nodes.length > 1 ? (
+                    <div className="family-tree-canvas glass-card">
+                        <svg
+                            viewBox={`0 0 ${tree.width} ${tree.height}`}
+                            width={tree.width}
+                            height={tree.height}
+                            role="img"
+                            aria-label="Family tree"
+                        >
+                            <defs>
+                                <clipPath id="family-tree-clip">
+                                    <circle r={NODE_RADIUS} />
+                                </clipPath>
+                            </defs>
+
+                            {tree.edges.map(edge => {
+                                const from = nodeAt(edge.from);
+                                const to = nodeAt(edge.to);
+                                const className = `tree-edge ${edge.kind} ${edge.modifier !== 'none' ? 'modified' : ''}`;
+                                if (edge.kind === 'parent') {
+                                    // Elbow from the parent down to the child, between the rows
+                                    const middle = (from.y + to.y) / 2;
+                                    return (
+                                        <path
+                                            key={`${edge.from}-${edge.to}`}
+                                            className={className}
+                                            d={`M ${from.x} ${from.y + NODE_RADIUS} V ${middle} H ${to.x} V ${to.y - NODE_RADIUS}`}
+                                        />
+                                    );
+                                }
+                                return (
+                                    <line
+                                        key={`${edge.from}-${edge.to}`}
+                                        className={className}
+                                        x1={from.x}
+                                        y1={from.y}
+                                        x2={to.x}
+                                        y2={to.y}
+                                    />
+                                );
+                            })}
+
+                            {tree.nodes.map(node => (
+                                <PersonNode
+                                    key={node.id}
+                                    x={node.x}
+                                    y={node.y}
+                                    person={personById(node.id)}
+                                    caption={captionFor(node.id)}
+                                    clipId="family-tree-clip"
+                                />
+                            ))}
+                        </svg>
+                    </div>
+                ) : (
+                    <p className="family-tree-hint">
+                        Add a family relationship below to start the tree, e.g. "Sarah is your daughter".
+                    </p>
+                )}
+                <p className="family-tree-hint">
+                    Each row is a generation. Lines down join parents and children, lines across join partners and
+                    siblings, and dashed lines are step, half or in-law relations.
+                </p>
+            </section>
+
+            {/* Circle of Care */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Circle of Care</h2>
+                {careCircle.length > 0 ? (
+                    <div className="family-tree-canvas glass-card">
+                        <svg
+                            viewBox={`0 0 ${circleSize} ${circleSize}`}
+                            width={circleSize}
+                            height={circleSize}
+                            role="img"
+                            aria-label="Circle of care"
+                        >
+                            <defs>
+                                <clipPath id="care-circle-clip">
+                                    <circle r={NODE_RADIUS} />
+                                </clipPath>
+                            </defs>
+                            <circle
+                                className="care-circle-orbit"
+                                cx={circleSize / 2}
+                                cy={circleSize / 2}
+                                r={circleRadius}
+                            />
+                            <PersonNode x={circleSize / 2} y={circleSize / 2} caption="" clipId="care-circle-clip" />
+                            {careCircle.map((person, i) => {
+                                const angle = (i / careCircle.length) * 2 * Math.PI - Math.PI / 2;
+                                return (
+                                    <PersonNode
+                                        key={person.id}
+                                        x={circleSize / 2 + circleRadius * Math.cos(angle)}
+                                        y={circleSize / 2 + circleRadius * Math.sin(angle)}
+                                        person={person}
+                                        caption={captionFor(person.id!)}
+                                        clipId="care-circle-clip"
+                                    />
+                                );
+                            })}
+                        </svg>
+                    </div>
+                ) : (
+                    <p className="family-tree-hint">
+                        Friends, neighbours, nurses, carers and doctors linked to the patient appear here.
+                    </p>
+                )}
+            </section>
+
+            {/* Relationships */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Relationships</h2>
+                <form className="relationship-form glass-card" onSubmit={handleAdd}>
+                    <select
+                        className="input"
+                        value={form.personId ?? ''}
+                        onChange={(e) => setForm({ ...form, personId: e.target.value ? Number(e.target.value) : null })}
+                        aria-label="Person"
+                    >
+                        <option value="">Choose someone…</option>
+                        {people.map(person => (
+                            <option key={person.id} value={person.id}>{person.name}</option>
+                        ))}
+                    </select>
+                    <span>is</span>
+                    <select
+                        className="input"
+                        value={form.relativeId}
+                        onChange={(e) => setForm({ ...form, relativeId: Number(e.target.value) })}
+                        aria-label="Related to"
+                    >
+                        <option value={PATIENT_ID}>your</option>
+                        {people.filter(person => person.id !== form.personId).map(person => (
+                            <option key={person.id} value={person.id}>{person.name}'s</option>
+                        ))}
+                    </select>
+                    {allowedModifiers.length > 0 && (
+                        <select
+                            className="input"
+                            value={allowedModifiers.includes(form.modifier) ? form.modifier : 'none'}
+                            onChange={(e) => setForm({ ...form, modifier: e.target.value as RelationModifier })}
+                            aria-label="Step or in-law"
+                        >
+                            {(['none', ...allowedModifiers] as RelationModifier[]).map(modifier => (
+                                <option key={modifier} value={modifier}>
+                                    {modifier === 'none' ? '—' : MODIFIER_NAMES[modifier].toLowerCase()}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <select
+                        className="input"
+                        value={form.role}
+                        onChange={(e) => setForm({ ...form, role: e.target.value })}
+                        aria-label="Relationship"
+                    >
+                        <optgroup label="Family">
+                            {ROLE_OPTIONS.filter(option => option.family).map(option => (
+                                <option key={option.value} value={option.value}>{option.text}</option>
+                            ))}
+                        </optgroup>
+                        <optgroup label="Care and community">
+                            {ROLE_OPTIONS.filter(option => !option.family).map(option => (
+                                <option key={option.value} value={option.value}>{option.text}</option>
+                            ))}
+                        </optgroup>
+                    </select>
+                    {formRole === 'other' && (
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g. physiotherapist"
+                            value={form.label}
+                            onChange={(e) => setForm({ ...form, label: e.target.value })}
+                            aria-label="Role"
+                        />
+                    )}
+                    <button type="submit" className="btn btn-primary btn-sm" disabled={!canAdd || saving}>
+                        Add
+                    </button>
+                </form>
+                {alreadyLinked && (
+                    <p className="family-tree-hint">
+                        These two are already linked. Remove that relationship first to change it.
+                    </p>
+                )}
+
+                {relationships.length > 0 && (
+                    <ul className="relationship-list glass-card">
+                        {relationships.map(r => (
+                            <li key={r.id} className="relationship-item">
+                                <span>
+                                    <strong>{nameOf(r.personId)}</strong> is{' '}
+                                    {r.relativeId === PATIENT_ID ? 'your' : <><strong>{nameOf(r.relativeId)}</strong>'s</>}{' '}
+                                    {relationName(r)}
+                                </span>
+                                <button className="btn btn-ghost btn-sm" onClick={() => handleDelete(r.id!)}>
+                                    Remove
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {unlinked.length > 0 && (
+                    <p className="family-tree-hint">
+                        Not linked yet: {unlinked.map(person => person.name).join(', ')}. Until they are, the AR view shows
+                        the relation typed when they were added.
+                    </p>
+                )}
+            </section>
+        </div>
+    );
+}
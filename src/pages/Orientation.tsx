@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import {
+    DEFAULT_ORIENTATION_SETTINGS,
+    WEEKDAY_NAMES,
+    loadOrientationSettings,
+    saveOrientationSettings,
+    type OrientationSettings,
+    type ScheduleItem
+} from '../services/orientation';
+import { OrientationCard } from '../components/OrientationCard';
+import './Orientation.css';
+
+export function Orientation() {
+    const [settings, setSettings] = useState<OrientationSettings>(DEFAULT_ORIENTATION_SETTINGS);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+
+    useEffect(() => {
+        async function loadData() {
+            try {
+                setSettings(await loadOrientationSettings());
+            } catch (error) {
+                console.error('Error loading orientation settings:', error);
+            } finally {
+                setLoading(false);
+            }
+        }
+        loadData();
+    }, []);
+
+    function update(changes: Partial<OrientationSettings>) {
+        setSettings(prev => ({ ...prev, ...changes }));
+        setSaved(false);
+    }
+
+    function updateItem(id: string, changes: Partial<ScheduleItem>) {
+        update({ schedule: settings.schedule.map(item => item.id === id ? { ...item, ...changes } : item) });
+    }
+
+    function toggleDay(item: ScheduleItem, day: number) {
+        const days = item.days.includes(day) ? item.days.filter(d => d !== day) : [...item.days, day].sort();
+        updateItem(item.id, { days });
+    }
+
+    function addItem() {
+        update({ schedule: [...settings.schedule, { id: crypto.randomUUID(), time: '12:00', label: '', days: [] }] });
+    }
+
+    async function handleSave() {
+        setSaving(true);
+        try {
+            // Drop unfinished rows and keep the rest in time order
+            const schedule = settings.schedule
+                .filter(item => item.label.trim() && item.time)
+                .map(item => ({ ...item, label: item.label.trim() }))
+                .sort((a, b) => a.time.localeCompare(b.time));
+            const next = { ...settings, schedule };
+            await saveOrientationSettings(next);
+            setSettings(next);
+            setSaved(true);
+        } catch (error) {
+            console.error('Error saving orientation settings:', error);
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="loading-container">
+                <div className="spinner"></div>
+                <p>Loading...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="orientation-page">
+            <header className="page-header">
+                <h1 className="page-title">Orientation Card</h1>
+                <p className="page-subtitle">
+                    What the AR view shows while nobody is in frame: the day, the time, where they are and what's next
+                </p>
+            </header>
+
+            {/* Preview */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Preview</h2>
+                <div className="orientation-preview">
+                    {settings.enabled ? (
+                        <OrientationCard settings={settings} visible />
+                    ) : (
+                        <p className="orientation-preview-off">The orientation card is turned off</p>
+                    )}
+                </div>
+            </section>
+
+            {/* Card Content */}
+            <section className="dashboard-section">
+                <h2 className="section-title">Card Content</h2>
+                <div className="orientation-form glass-card">
+                    <label className="orientation-toggle">
+                        <input
+                            type="checkbox"
+                            checked={settings.enabled}
+                            onChange={(e) => update({ enabled: e.target.checked })}
+                        />
+                        <span>Show the orientation card when nobody is recognized</span>
+                    </label>
+
+                    <div className="input-group">
+                        <label className="input-label">Where they are</label>
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g. at home in Leeds"
+                            value={settings.location}
+                            onChange={(e) => update({ location: e.target.value })}
+                        />
+                        <span className="orientation-hint">Shown as "You are …"</span>
+                    </div>
+
+                    <div className="input-group">
+                        <label className="input-label">Extra line (optional)</label>
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g. Sarah visits on Sundays"
+                            value={settings.note}
+                            onChange={(e) => update({ note: e.target.value })}
+                        />
+                    </div>
+                </div>
+            </section>
+
+            {/* Schedule */}
+            <section className="dashboard-section">
+                <div className="section-header">
+                    <h2 className="section-title">Schedule</h2>
+                    <button className="btn btn-secondary btn-sm" onClick={addItem}>+ Add Item</button>
+                </div>
+                {settings.schedule.length === 0 ? (
+                    <p className="orientation-hint">
+                        Add meals, medication, visits or outings. The card shows whichever comes next.
+                    </p>
+                ) : (
+                    <div className="schedule-list">
+                        {settings.schedule.map(item => (
+                            <div key={item.id} className="schedule-row glass-card">
+                                <input
+                                    type="time"
+                                    className="input schedule-time"
+                                    value={item.time}
+                                    onChange={(e) => updateItem(item.id, { time: e.target.value })}
+                                />
+                                <input
+                                    type="text"
+                                    className="input schedule-label"
+                                    placeholder="e.g. Lunch"
+                                    value={item.label}
+                                    onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                                />
+                                <div className="schedule-days" title="No days selected means every day">
+                                    {WEEKDAY_NAMES.map((name, day) => (
+                                        <button
+                                            key={day}
+                                            className={`schedule-day ${item.days.includes(day) ? 'active' : ''}`}
+                                            onClick={() => toggleDay(item, day)}
+                                            aria-pressed={item.days.includes(day)}
+                                            aria-label={name}
+                                        >
+                                            {name[0]}
+                                        </button>
+                                    ))}
+                                </div>
+                                <button
+                                    className="btn btn-danger btn-sm"
+                                    onClick={() => update({ schedule: settings.schedule.filter(i => i.id !== item.id) })}
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                        <p className="orientation-hint">Leave all days unselected for something that happens every day.</p>
+                    </div>
+                )}
+            </section>
+
+            <div className="orientation-actions">
+                <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save'}
+                </button>
+                {saved && <span className="saved-note">Saved. The AR view picks this up next time it opens.</span>}
+            </div>
+        </div>
+    );
+}
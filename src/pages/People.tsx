@@ -1,7 +1,11 @@
 import { useEffect, useState, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { getAllPeople, addPerson, deletePerson, type Person } from '../db/database';
-import { extractFaceDescriptor, loadFaceDetectionModels } from '../services/faceDetection';
+import { getAllPeople, addPerson, deletePerson, addFaceSample, getDescriptorGallery, type Person } from '../db/database';
+import { ModelLoadError } from '../services/faceDetection';
+import { getFaceRecognizer } from '../services/faceRecognizer';
+import type { AnalyzedFace } from '../services/photoQuality';
+import { findSimilarPerson } from '../services/duplicates';
+import { PhotoQualityReport } from '../components/PhotoQuality';
 import './People.css';
 
 export function People() {
@@ -15,8 +19,11 @@ export function People() {
     });
     const [photoFile, setPhotoFile] = useState<File | null>(null);
     const [photoPreview, setPhotoPreview] = useState<string | null>(null);
-    const [faceDescriptor, setFaceDescriptor] = useState<number[] | null>(null);
-    const [faceStatus, setFaceStatus] = useState<'none' | 'extracting' | 'found' | 'not_found'>('none');
+    const [analyzedFaces, setAnalyzedFaces] = useState<AnalyzedFace[]>([]);
+    const [selectedFace, setSelectedFace] = useState(0);
+    const [faceStatus, setFaceStatus] = useState<'none' | 'extracting' | 'found' | 'not_found' | 'model_error'>('none');
+    const [modelError, setModelError] = useState('');
+    const [possibleDuplicate, setPossibleDuplicate] = useState<{ person: Person; similarity: number } | null>(null);
     const [saving, setSaving] = useState(false);
     const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -41,8 +48,10 @@ export function People() {
         const file = e.target.files?.[0];
         if (file) {
             setPhotoFile(file);
-            setFaceDescriptor(null);
+            setAnalyzedFaces([]);
+            setSelectedFace(0);
             setFaceStatus('none');
+            setPossibleDuplicate(null);
 
             const reader = new FileReader();
             reader.onloadend = async () => {
@@ -54,41 +63,88 @@ export function People() {
 
                 try {
                     // Load models first if needed
-                    await loadFaceDetectionModels();
+                    await getFaceRecognizer().loadModels();
 
                     // Create image element for face extraction
                     const img = new Image();
                     img.crossOrigin = 'anonymous';
                     img.onload = async () => {
-                        const descriptor = await extractFaceDescriptor(img);
+                        try {
+                            // Grade every face so the caregiver can see if the photo is good enough
+                            const faces = await getFaceRecognizer().analyzePhoto(img);
+                            setAnalyzedFaces(faces);
 
-                        if (descriptor) {
-                            setFaceDescriptor(descriptor);
-                            setFaceStatus('found');
-                            console.log('Face descriptor extracted successfully');
-                        } else {
+                            if (faces.length > 0) {
+                                setFaceStatus('found');
+                                await checkForDuplicate(faces[0]);
+                                console.log(`Analyzed ${faces.length} face(s) in photo`);
+                            } else {
+                                setFaceStatus('not_found');
+                                console.warn('No face found in image');
+                            }
+                        } catch (error) {
+                            console.error('Error analyzing photo:', error);
                             setFaceStatus('not_found');
-                            console.warn('No face found in image');
                         }
                     };
                     img.src = dataUrl;
                 } catch (error) {
                     console.error('Error extracting face:', error);
-                    setFaceStatus('not_found');
+                    if (error instanceof ModelLoadError) {
+                        setModelError(error.message);
+                        setFaceStatus('model_error');
+                    } else {
+                        setFaceStatus('not_found');
+                    }
                 }
             };
             reader.readAsDataURL(file);
         }
     }
 
+    // Warn when the face already belongs to someone, e.g. "Tom" being added again as "Thomas"
+    async function checkForDuplicate(face: AnalyzedFace) {
+        setPossibleDuplicate(null);
+        try {
+            const match = findSimilarPerson(face.descriptor, await getDescriptorGallery());
+            const person = match && people.find(p => p.id === match.personId);
+            if (match && person) {
+                setPossibleDuplicate({ person, similarity: match.similarity });
+            }
+        } catch (error) {
+            console.error('Error checking for duplicate person:', error);
+        }
+    }
+
+    function handleSelectFace(index: number) {
+        setSelectedFace(index);
+        if (analyzedFaces[index]) checkForDuplicate(analyzedFaces[index]);
+    }
+
+    async function handleAddToExisting() {
+        if (!possibleDuplicate?.person.id || !photoFile || !chosenFace || photoRejected) return;
+
+        setSaving(true);
+        try {
+            await addFaceSample(possibleDuplicate.person.id, photoFile, chosenFace.descriptor);
+            await loadPeople();
+            resetForm();
+            setShowModal(false);
+        } catch (error) {
+            console.error('Error adding photo to existing person:', error);
+        } finally {
+            setSaving(false);
+        }
+    }
+
     async function handleSubmit(e: React.FormEvent) {
         e.preventDefault();
         if (!formData.name || !formData.relation || !photoFile) return;
 
         setSaving(true);
         try {
-            // Pass face descriptor to addPerson (may be null if face not detected)
-            await addPerson(formData.name, formData.relation, photoFile, faceDescriptor ?? undefined);
+            // Pass face descriptor to addPerson (may be undefined if face not detected)
+            await addPerson(formData.name, formData.relation, photoFile, chosenFace?.descriptor);
             await loadPeople();
             resetForm();
             setShowModal(false);
@@ -113,13 +169,18 @@ export function People() {
         setFormData({ name: '', relation: '' });
         setPhotoFile(null);
         setPhotoPreview(null);
-        setFaceDescriptor(null);
+        setAnalyzedFaces([]);
+        setSelectedFace(0);
         setFaceStatus('none');
+        setPossibleDuplicate(null);
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
     }
 
+    const chosenFace: AnalyzedFace | undefined = analyzedFaces[selectedFace];
+    const photoRejected = chosenFace?.verdict === 'fail';
+
     const filteredPeople = people.filter(person =>
         person.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         person.relation.toLowerCase().includes(searchQuery.toLowerCase())
@@ -155,9 +216,14 @@ export function People() {
                         onChange={(e) => setSearchQuery(e.target.value)}
                     />
                 </div>
-                <button className="btn btn-primary" onClick={() => setShowModal(true)}>
-                    <span>➕</span> Add Person
-                </button>
+                <div className="actions-buttons">
+                    <Link to="/people/duplicates" className="btn btn-secondary">
+                        Find Duplicates
+                    </Link>
+                    <button className="btn btn-primary" onClick={() => setShowModal(true)}>
+                        <span>➕</span> Add Person
+                    </button>
+                </div>
             </div>
 
             {/* People Grid */}
@@ -273,7 +339,11 @@ export function People() {
                                         {faceStatus === 'found' && (
                                             <>
                                                 <span className="status-icon">✅</span>
-                                                <span>Face detected! Ready for recognition.</span>
+                                                <span>
+                                                    {analyzedFaces.length > 1
+                                                        ? `${analyzedFaces.length} faces detected.`
+                                                        : 'Face detected!'}
+                                                </span>
                                             </>
                                         )}
                                         {faceStatus === 'not_found' && (
@@ -282,6 +352,56 @@ export function People() {
                                                 <span>No face detected. Try a clearer photo.</span>
                                             </>
                                         )}
+                                        {faceStatus === 'model_error' && (
+                                            <>
+                                                <span className="status-icon">⚠️</span>
+                                                <span>Face recognition unavailable. {modelError}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
+                                {faceStatus === 'found' && (
+                                    <PhotoQualityReport
+                                        faces={analyzedFaces}
+                                        selectedFace={selectedFace}
+                                        onSelectFace={handleSelectFace}
+                                    />
+                                )}
+
+                                {/* Possible Duplicate */}
+                                {possibleDuplicate && (
+                                    <div className="duplicate-warning">
+                                        <img
+                                            src={possibleDuplicate.person.photoUrl}
+                                            alt={possibleDuplicate.person.name}
+                                            className="duplicate-photo"
+                                        />
+                                        <div className="duplicate-info">
+                                            <span className="duplicate-title">
+                                                Looks like {possibleDuplicate.person.name} ({possibleDuplicate.person.relation})
+                                            </span>
+                                            <span className="duplicate-similarity">
+                                                {Math.round(possibleDuplicate.similarity * 100)}% similar
+                                            </span>
+                                            <div className="duplicate-actions">
+                                                <button
+                                                    type="button"
+                                                    className="btn btn-primary btn-sm"
+                                                    onClick={handleAddToExisting}
+                                                    disabled={saving || photoRejected}
+                                                >
+                                                    Add photo to {possibleDuplicate.person.name}
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    className="btn btn-ghost btn-sm"
+                                                    onClick={() => setPossibleDuplicate(null)}
+                                                >
+                                                    It's someone else
+                                                </button>
+                                            </div>
+                                        </div>
                                     </div>
                                 )}
 
@@ -334,7 +454,7 @@ export function People() {
                                 <button
                                     type="submit"
                                     className="btn btn-primary"
-                                    disabled={saving || !formData.name || !formData.relation || !photoFile}
+                                    disabled={saving || !formData.name || !formData.relation || !photoFile || photoRejected}
                                 >
                                     {saving ? (
                                         <>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import {
     getPersonById,
@@ -6,12 +6,55 @@ import {
     addConversation,
     deleteConversation,
     deletePerson,
+    getFaceSamplesForPerson,
+    getEncountersForPerson,
+    addFaceSample,
+    deleteFaceSample,
+    updatePerson,
+    editPerson,
+    getPersonEdits,
+    revertPersonEdit,
     type Person,
-    type Conversation
+    type PersonDetails,
+    type PersonEdit,
+    type ProfileField,
+    type Conversation,
+    type FaceSample,
+    type Encounter
 } from '../db/database';
 import { summarizeConversation } from '../services/gemini';
+import { ModelLoadError } from '../services/faceDetection';
+import { getFaceRecognizer } from '../services/faceRecognizer';
+import { defaultAnnouncement, speak, speechAvailable, stopSpeaking } from '../services/announcements';
+import { loadARSettings } from '../services/arSettings';
+import { VoiceClipEditor } from '../components/VoiceClip';
+import { PersonEditor } from '../components/PersonEditor';
+import { PROFILE_FIELD_NAMES, isBirthday, parseList } from '../services/personProfile';
 import './PersonDetail.css';
 
+// Profile fields as edited on the page; lists are one item per line
+interface ProfileForm {
+    nickname: string;
+    birthday: string;
+    location: string;
+    interests: string;
+    sharedMemories: string;
+    keyFacts: string;
+    arProfileFields: ProfileField[];
+}
+
+function profileFormFor(person?: Person): ProfileForm {
+    return {
+        nickname: person?.nickname ?? '',
+        birthday: person?.birthday ?? '',
+        location: person?.location ?? '',
+        interests: (person?.interests ?? []).join('\n'),
+        sharedMemories: (person?.sharedMemories ?? []).join('\n'),
+        keyFacts: (person?.keyFacts ?? []).join('\n'),
+        arProfileFields: person?.arProfileFields ?? [],
+    };
+}
+
 export function PersonDetail() {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
@@ -25,6 +68,20 @@ export function PersonDetail() {
     const [saving, setSaving] = useState(false);
     const [summarizing, setSummarizing] = useState(false);
     const [deleteConfirm, setDeleteConfirm] = useState(false);
+    const [samples, setSamples] = useState<FaceSample[]>([]);
+    const [encounters, setEncounters] = useState<Encounter[]>([]);
+    const [showAllVisits, setShowAllVisits] = useState(false);
+    const [sampleStatus, setSampleStatus] = useState<'none' | 'extracting' | 'not_found' | 'model_error'>('none');
+    const [modelError, setModelError] = useState('');
+    const sampleInputRef = useRef<HTMLInputElement>(null);
+    const [announcementPhrase, setAnnouncementPhrase] = useState('');
+    const [phraseSaved, setPhraseSaved] = useState(false);
+    const [pinnedFact, setPinnedFact] = useState('');
+    const [factSaved, setFactSaved] = useState(false);
+    const [profileForm, setProfileForm] = useState<ProfileForm>(profileFormFor());
+    const [profileSaved, setProfileSaved] = useState(false);
+    const [showEdit, setShowEdit] = useState(false);
+    const [edits, setEdits] = useState<PersonEdit[]>([]);
 
     useEffect(() => {
         loadData();
@@ -33,12 +90,21 @@ export function PersonDetail() {
     async function loadData() {
         if (!id) return;
         try {
-            const [personData, convosData] = await Promise.all([
+            const [personData, convosData, samplesData, encountersData, editsData] = await Promise.all([
                 getPersonById(parseInt(id)),
-                getConversationsForPerson(parseInt(id))
+                getConversationsForPerson(parseInt(id)),
+                getFaceSamplesForPerson(parseInt(id)),
+                getEncountersForPerson(parseInt(id)),
+                getPersonEdits(parseInt(id))
             ]);
             setPerson(personData || null);
+            setAnnouncementPhrase(personData?.announcementPhrase ?? '');
+            setPinnedFact(personData?.pinnedFact ?? '');
+            setProfileForm(profileFormFor(personData));
             setConversations(convosData);
+            setSamples(samplesData);
+            setEncounters(encountersData);
+            setEdits(editsData);
         } catch (error) {
             console.error('Error loading person data:', error);
         } finally {
@@ -87,6 +153,159 @@ export function PersonDetail() {
         }
     }
 
+    async function handleAddSamples(e: React.ChangeEvent<HTMLInputElement>) {
+        const files = Array.from(e.target.files ?? []);
+        if (!person?.id || files.length === 0) return;
+
+        setSampleStatus('extracting');
+        try {
+            await getFaceRecognizer().loadModels();
+
+            let missed = 0;
+            for (const file of files) {
+                const descriptor = await getFaceRecognizer().extractDescriptor(file);
+                if (descriptor) {
+                    await addFaceSample(person.id, file, descriptor);
+                } else {
+                    missed++;
+                }
+            }
+
+            await loadData();
+            setSampleStatus(missed > 0 ? 'not_found' : 'none');
+        } catch (error) {
+            console.error('Error adding face samples:', error);
+            if (error instanceof ModelLoadError) {
+                setModelError(error.message);
+                setSampleStatus('model_error');
+            } else {
+                setSampleStatus('not_found');
+            }
+        } finally {
+            if (sampleInputRef.current) {
+                sampleInputRef.current.value = '';
+            }
+        }
+    }
+
+    async function handleDeleteSample(sampleId: number) {
+        try {
+            await deleteFaceSample(sampleId);
+            await loadData();
+        } catch (error) {
+            console.error('Error deleting face sample:', error);
+        }
+    }
+
+    async function handleSaveAnnouncement() {
+        if (!person?.id) return;
+        try {
+            const phrase = announcementPhrase.trim() || undefined;
+            await updatePerson(person.id, { announcementPhrase: phrase });
+            setPerson({ ...person, announcementPhrase: phrase });
+            setPhraseSaved(true);
+        } catch (error) {
+            console.error('Error saving announcement:', error);
+        }
+    }
+
+    async function handleSavePinnedFact() {
+        if (!person?.id) return;
+        try {
+            const fact = pinnedFact.trim() || undefined;
+            await updatePerson(person.id, { pinnedFact: fact });
+            setPerson({ ...person, pinnedFact: fact });
+            setFactSaved(true);
+        } catch (error) {
+            console.error('Error saving pinned fact:', error);
+        }
+    }
+
+    function changeProfile(changes: Partial<ProfileForm>) {
+        setProfileForm({ ...profileForm, ...changes });
+        setProfileSaved(false);
+    }
+
+    function toggleProfileFieldInAR(field: ProfileField, shown: boolean) {
+        changeProfile({
+            arProfileFields: shown
+                ? [...profileForm.arProfileFields, field]
+                : profileForm.arProfileFields.filter(f => f !== field)
+        });
+    }
+
+    // Field label with its "Show in AR" toggle
+    function profileFieldHeader(field: ProfileField) {
+        return (
+            <div className="profile-field-header">
+                <label className="input-label">{PROFILE_FIELD_NAMES[field]}</label>
+                <label className="profile-ar-toggle">
+                    <input
+                        type="checkbox"
+                        checked={profileForm.arProfileFields.includes(field)}
+                        onChange={(e) => toggleProfileFieldInAR(field, e.target.checked)}
+                    />
+                    Show in AR
+                </label>
+            </div>
+        );
+    }
+
+    async function handleSaveProfile() {
+        if (!person?.id) return;
+        try {
+            const profile = {
+                nickname: profileForm.nickname.trim() || undefined,
+                birthday: profileForm.birthday || undefined,
+                location: profileForm.location.trim() || undefined,
+                interests: parseList(profileForm.interests),
+                sharedMemories: parseList(profileForm.sharedMemories),
+                keyFacts: parseList(profileForm.keyFacts),
+                arProfileFields: profileForm.arProfileFields
+            };
+            await updatePerson(person.id, profile);
+            const updated = { ...person, ...profile };
+            setPerson(updated);
+            setProfileForm(profileFormFor(updated));
+            setProfileSaved(true);
+        } catch (error) {
+            console.error('Error saving profile:', error);
+        }
+    }
+
+    async function handlePreviewAnnouncement() {
+        if (!person) return;
+        try {
+            const { speech } = await loadARSettings();
+            stopSpeaking();
+            speak(announcementPhrase.trim() || defaultAnnouncement(person, conversations[0]?.summary), speech);
+        } catch (error) {
+            console.error('Error previewing announcement:', error);
+        }
+    }
+
+    async function handleSaveVoiceClip(clip: Blob | undefined) {
+        if (!person?.id) return;
+        await updatePerson(person.id, { voiceClipBlob: clip });
+        setPerson({ ...person, voiceClipBlob: clip });
+    }
+
+    async function handleEditPerson(changes: Partial<PersonDetails>, photoDescriptor?: number[]) {
+        if (!person?.id) return;
+        await editPerson(person.id, changes, photoDescriptor);
+        await loadData();
+        setShowEdit(false);
+    }
+
+    async function handleRevertEdit(editId: number) {
+        try {
+            await revertPersonEdit(editId);
+            await loadData();
+        } catch (error) {
+            console.error('Error reverting edit:', error);
+        }
+    }
+
     async function handleDeletePerson() {
         if (!person?.id) return;
         try {
@@ -107,6 +326,13 @@ export function PersonDetail() {
         });
     }
 
+    function formatDuration(ms: number) {
+        const minutes = Math.round(ms / 60_000);
+        if (minutes < 1) return 'under a minute';
+        if (minutes < 60) return `${minutes} min`;
+        return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+    }
+
     if (loading) {
         return (
             <div className="loading-container">
@@ -140,6 +366,9 @@ export function PersonDetail() {
                     <span className="person-header-relation">{person.relation}</span>
                 </div>
                 <div className="person-header-actions">
+                    <button className="btn btn-secondary" onClick={() => setShowEdit(true)}>
+                        Edit
+                    </button>
                     <button
                         className="btn btn-danger"
                         onClick={() => setDeleteConfirm(true)}
@@ -149,6 +378,306 @@ export function PersonDetail() {
                 </div>
             </header>
 
+            {/* Face Samples Gallery */}
+            <section className="samples-section">
+                <div className="section-header">
+                    <h2 className="section-title">Face Samples</h2>
+                    <button
+                        className="btn btn-secondary"
+                        onClick={() => sampleInputRef.current?.click()}
+                        disabled={sampleStatus === 'extracting'}
+                    >
+                        <span>📷</span> Add Photos
+                    </button>
+                    <input
+                        ref={sampleInputRef}
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={handleAddSamples}
+                        style={{ display: 'none' }}
+                    />
+                </div>
+
+                <p className="samples-hint">
+                    Add photos with glasses, different hairstyles and angles so {person.name} is recognized more reliably.
+                </p>
+
+                {sampleStatus === 'extracting' && (
+                    <div className="summarizing-indicator">
+                        <div className="spinner"></div>
+                        <span>Detecting faces...</span>
+                    </div>
+                )}
+                {sampleStatus === 'not_found' && (
+                    <div className="samples-warning">
+                        ⚠️ Some photos had no detectable face and were skipped.
+                    </div>
+                )}
+                {sampleStatus === 'model_error' && (
+                    <div className="samples-warning">
+                        ⚠️ Face recognition unavailable. {modelError}
+                    </div>
+                )}
+
+                {samples.length > 0 ? (
+                    <div className="samples-grid">
+                        {samples.map((sample) => (
+                            <div key={sample.id} className="sample-item">
+                                <img src={sample.photoUrl} alt={`${person.name} sample`} className="sample-photo" />
+                                <button
+                                    className="sample-remove"
+                                    onClick={() => handleDeleteSample(sample.id!)}
+                                    title="Remove sample"
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="empty-conversations glass-card">
+                        <span className="empty-icon">🙂</span>
+                        <p>No face samples yet. {person.name} will not be recognized in AR.</p>
+                    </div>
+                )}
+            </section>
+
+            {/* Voice Recording */}
+            <section className="announcement-section">
+                <div className="section-header">
+                    <h2 className="section-title">Voice Recording</h2>
+                </div>
+                <p className="samples-hint">
+                    A short clip of {person.name} saying their name or a greeting. It plays in AR when they are
+                    recognized, instead of the spoken phrase below.
+                </p>
+                <VoiceClipEditor clip={person.voiceClipBlob} personName={person.name} onSave={handleSaveVoiceClip} />
+            </section>
+
+            {/* Spoken Announcement */}
+            {speechAvailable() && (
+                <section className="announcement-section">
+                    <div className="section-header">
+                        <h2 className="section-title">Spoken Announcement</h2>
+                    </div>
+                    <p className="samples-hint">
+                        Spoken aloud in AR when {person.name} is recognized. Leave empty to use the default phrase.
+                    </p>
+                    <div className="announcement-editor glass-card">
+                        <textarea
+                            className="input textarea"
+                            placeholder={defaultAnnouncement(person, conversations[0]?.summary)}
+                            value={announcementPhrase}
+                            onChange={(e) => {
+                                setAnnouncementPhrase(e.target.value);
+                                setPhraseSaved(false);
+                            }}
+                            rows={2}
+                        />
+                        <div className="announcement-actions">
+                            <button className="btn btn-secondary btn-sm" onClick={handlePreviewAnnouncement}>
+                                🔊 Preview
+                            </button>
+                            <button
+                                className="btn btn-primary btn-sm"
+                                onClick={handleSaveAnnouncement}
+                                disabled={announcementPhrase.trim() === (person.announcementPhrase ?? '')}
+                            >
+                                {phraseSaved ? 'Saved' : 'Save Phrase'}
+                            </button>
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            {/* Profile */}
+            <section className="announcement-section">
+                <div className="section-header">
+                    <h2 className="section-title">Profile</h2>
+                    {isBirthday(person) && <span className="profile-birthday-today">🎂 Birthday today</span>}
+                </div>
+                <p className="samples-hint">
+                    What to remember about {person.name}. Fields marked "Show in AR" appear among the cards under their
+                    name, and on their birthday the AR label is highlighted. Lists take one item per line.
+                </p>
+                <div className="announcement-editor glass-card">
+                    <div className="input-group">
+                        {profileFieldHeader('nickname')}
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g. Granny, or Bobby"
+                            value={profileForm.nickname}
+                            onChange={(e) => changeProfile({ nickname: e.target.value })}
+                        />
+                    </div>
+                    <div className="input-group">
+                        {profileFieldHeader('birthday')}
+                        <input
+                            type="date"
+                            className="input"
+                            value={profileForm.birthday}
+                            onChange={(e) => changeProfile({ birthday: e.target.value })}
+                        />
+                    </div>
+                    <div className="input-group">
+                        {profileFieldHeader('location')}
+                        <input
+                            type="text"
+                            className="input"
+                            placeholder="e.g. Leeds, just around the corner"
+                            value={profileForm.location}
+                            onChange={(e) => changeProfile({ location: e.target.value })}
+                        />
+                    </div>
+                    <div className="input-group">
+                        {profileFieldHeader('interests')}
+                        <textarea
+                            className="input textarea"
+                            placeholder="e.g. Gardening"
+                            value={profileForm.interests}
+                            onChange={(e) => changeProfile({ interests: e.target.value })}
+                            rows={3}
+                        />
+                    </div>
+                    <div className="input-group">
+                        {profileFieldHeader('sharedMemories')}
+                        <textarea
+                            className="input textarea"
+                            placeholder="e.g. Our trip to Whitby in 1998"
+                            value={profileForm.sharedMemories}
+                            onChange={(e) => changeProfile({ sharedMemories: e.target.value })}
+                            rows={3}
+                        />
+                    </div>
+                    <div className="input-group">
+                        {profileFieldHeader('keyFacts')}
+                        <textarea
+                            className="input textarea"
+                            placeholder="e.g. Her kids are Ava and Leo"
+                            value={profileForm.keyFacts}
+                            onChange={(e) => changeProfile({ keyFacts: e.target.value })}
+                            rows={3}
+                        />
+                    </div>
+                    <div className="announcement-actions">
+                        <button
+                            className="btn btn-primary btn-sm"
+                            onClick={handleSaveProfile}
+                            disabled={JSON.stringify(profileForm) === JSON.stringify(profileFormFor(person))}
+                        >
+                            {profileSaved ? 'Saved' : 'Save Profile'}
+                        </button>
+                    </div>
+                </div>
+            </section>
+
+            {/* Pinned Fact */}
+            <section className="announcement-section">
+                <div className="section-header">
+                    <h2 className="section-title">Pinned Fact</h2>
+                </div>
+                <p className="samples-hint">
+                    Shown among the cards under {person.name}'s name in AR, alongside recent conversations.
+                </p>
+                <div className="announcement-editor glass-card">
+                    <textarea
+                        className="input textarea"
+                        placeholder="e.g. Just moved to Bristol for a new job"
+                        value={pinnedFact}
+                        onChange={(e) => {
+                            setPinnedFact(e.target.value);
+                            setFactSaved(false);
+                        }}
+                        rows={2}
+                    />
+                    <div className="announcement-actions">
+                        <button
+                            className="btn btn-primary btn-sm"
+                            onClick={handleSavePinnedFact}
+                            disabled={pinnedFact.trim() === (person.pinnedFact ?? '')}
+                        >
+                            {factSaved ? 'Saved' : 'Save Fact'}
+                        </button>
+                    </div>
+                </div>
+            </section>
+
+            {/* Edit History */}
+            {edits.length > 0 && (
+                <section className="edits-section">
+                    <div className="section-header">
+                        <h2 className="section-title">Edit History</h2>
+                    </div>
+                    <p className="samples-hint">
+                        Reverting a change also reverts any made after it.
+                    </p>
+                    <ul className="edits-list glass-card">
+                        {edits.map((edit) => (
+                            <li key={edit.id} className="edit-item">
+                                <div className="edit-changes">
+                                    {edit.after.name !== undefined && (
+                                        <span>Name: {edit.before.name} → <strong>{edit.after.name}</strong></span>
+                                    )}
+                                    {edit.after.relation !== undefined && (
+                                        <span>Relation: {edit.before.relation} → <strong>{edit.after.relation}</strong></span>
+                                    )}
+                                    {edit.afterPhotoUrl && (
+                                        <span className="edit-photos">
+                                            Photo:
+                                            <img src={edit.beforePhotoUrl} alt="Previous photo" />
+                                            →
+                                            <img src={edit.afterPhotoUrl} alt="New photo" />
+                                        </span>
+                                    )}
+                                    <span className="edit-date">{formatDate(edit.editedAt)}</span>
+                                </div>
+                                <button className="btn btn-ghost btn-sm" onClick={() => handleRevertEdit(edit.id!)}>
+                                    ↩ Revert
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {/* Visits Timeline */}
+            <section className="visits-section">
+                <div className="section-header">
+                    <h2 className="section-title">Visits</h2>
+                </div>
+
+                {encounters.length > 0 ? (
+                    <>
+                        <ol className="visits-timeline">
+                            {(showAllVisits ? encounters : encounters.slice(0, 10)).map((encounter) => (
+                                <li key={encounter.id} className="visit-item">
+                                    <span className="visit-dot"></span>
+                                    <div className="visit-info">
+                                        <span className="visit-date">{formatDate(encounter.startedAt)}</span>
+                                        <span className="visit-meta">
+                                            {formatDuration(encounter.durationMs)} · {Math.round(encounter.averageSimilarity * 100)}% match
+                                            (peak {Math.round(encounter.peakSimilarity * 100)}%) · {encounter.device}
+                                        </span>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                        {encounters.length > 10 && (
+                            <button className="btn btn-ghost btn-sm" onClick={() => setShowAllVisits(!showAllVisits)}>
+                                {showAllVisits ? 'Show fewer' : `Show all ${encounters.length} visits`}
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <div className="empty-conversations glass-card">
+                        <span className="empty-icon">🚪</span>
+                        <p>No visits recorded yet. Visits are logged when {person.name} is recognized in the AR view.</p>
+                    </div>
+                )}
+            </section>
+
             {/* Conversations Section */}
             <section className="conversations-section">
                 <div className="section-header">
@@ -302,6 +831,11 @@ export function PersonDetail() {
                 </div>
             )}
 
+            {/* Edit Person Modal */}
+            {showEdit && (
+                <PersonEditor person={person} onSave={handleEditPerson} onClose={() => setShowEdit(false)} />
+            )}
+
             {/* Delete Confirmation Modal */}
             {deleteConfirm && (
                 <div className="modal-overlay" onClick={() => setDeleteConfirm(false)}>
@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    getUnknownClusters,
+    getAllPeople,
+    deleteUnknownCluster,
+    attachClusterToPerson,
+    promoteClusterToPerson,
+    type Person,
+    type UnknownCluster,
+    type UnknownSighting
+} from '../db/database';
+import './Visitors.css';
+
+type ClusterWithSightings = UnknownCluster & { sightings: UnknownSighting[] };
+
+export function Visitors() {
+    const [clusters, setClusters] = useState<ClusterWithSightings[]>([]);
+    const [people, setPeople] = useState<Person[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [enrolling, setEnrolling] = useState<ClusterWithSightings | null>(null);
+    const [mode, setMode] = useState<'new' | 'existing'>('new');
+    const [formData, setFormData] = useState({ name: '', relation: '' });
+    const [existingPersonId, setExistingPersonId] = useState<number | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    async function loadData() {
+        try {
+            const [clusterData, peopleData] = await Promise.all([getUnknownClusters(), getAllPeople()]);
+            setClusters(clusterData);
+            setPeople(peopleData);
+        } catch (error) {
+            console.error('Error loading unrecognized visitors:', error);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function openEnroll(cluster: ClusterWithSightings) {
+        setEnrolling(cluster);
+        setMode('new');
+        setFormData({ name: '', relation: '' });
+        setExistingPersonId(null);
+    }
+
+    async function handleEnroll(e: React.FormEvent) {
+        e.preventDefault();
+        if (!enrolling?.id) return;
+
+        setSaving(true);
+        try {
+            if (mode === 'new') {
+                if (!formData.name || !formData.relation) return;
+                await promoteClusterToPerson(enrolling.id, formData.name, formData.relation);
+            } else {
+                if (!existingPersonId) return;
+                await attachClusterToPerson(enrolling.id, existingPersonId);
+            }
+            setEnrolling(null);
+            await loadData();
+        } catch (error) {
+            console.error('Error enrolling visitor:', error);
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    async function handleDismiss(clusterId: number) {
+        try {
+            await deleteUnknownCluster(clusterId);
+            await loadData();
+        } catch (error) {
+            console.error('Error dismissing visitor:', error);
+        }
+    }
+
+    function formatDate(date: Date) {
+        return new Date(date).toLocaleDateString('en-US', {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit'
+        });
+    }
+
+    if (loading) {
+        return (
+            <div className="loading-container">
+                <div className="spinner"></div>
+                <p>Loading visitors...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="visitors-page">
+            <header className="page-header">
+                <div>
+                    <h1 className="page-title">Unrecognized Visitors</h1>
+                    <p className="page-subtitle">Faces seen in the AR view that did not match anyone</p>
+                </div>
+            </header>
+
+            {clusters.length > 0 ? (
+                <div className="visitor-list">
+                    {clusters.map((cluster) => (
+                        <div key={cluster.id} className="visitor-card glass-card">
+                            <div className="visitor-snapshots">
+                                {cluster.sightings.slice(0, 6).map((sighting) => (
+                                    <img
+                                        key={sighting.id}
+                                        src={sighting.snapshotUrl}
+                                        alt="Unrecognized face"
+                                        className="visitor-snapshot"
+                                    />
+                                ))}
+                            </div>
+                            <div className="visitor-info">
+                                <span className="visitor-count">
+                                    Seen {cluster.sightingCount} {cluster.sightingCount === 1 ? 'time' : 'times'}
+                                </span>
+                                <span className="visitor-dates">
+                                    First {formatDate(cluster.firstSeenAt)} · Last {formatDate(cluster.lastSeenAt)}
+                                </span>
+                            </div>
+                            <div className="visitor-actions">
+                                <button className="btn btn-primary btn-sm" onClick={() => openEnroll(cluster)}>
+                                    Enroll
+                                </button>
+                                <button className="btn btn-ghost btn-sm" onClick={() => handleDismiss(cluster.id!)}>
+                                    Dismiss
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <div className="empty-state">
+                    <div className="empty-state-icon">🕵️</div>
+                    <h3 className="empty-state-title">No unrecognized visitors</h3>
+                    <p className="empty-state-description">
+                        Faces the AR view cannot match will appear here so you can enroll them.
+                    </p>
+                </div>
+            )}
+
+            {/* Enroll Modal */}
+            {enrolling && (
+                <div className="modal-overlay" onClick={() => setEnrolling(null)}>
+                    <div className="modal" onClick={(e) => e.stopPropagation()}>
+                        <div className="modal-header">
+                            <h2 className="modal-title">Enroll Visitor</h2>
+                            <button className="btn btn-ghost btn-icon" onClick={() => setEnrolling(null)}>
+                                ✕
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleEnroll} className="modal-body">
+                            <div className="visitor-snapshots">
+                                {enrolling.sightings.slice(0, 4).map((sighting) => (
+                                    <img
+                                        key={sighting.id}
+                                        src={sighting.snapshotUrl}
+                                        alt="Unrecognized face"
+                                        className="visitor-snapshot"
+                                    />
+                                ))}
+                            </div>
+
+                            <div className="enroll-mode">
+                                <label className="toggle-label">
+                                    <input
+                                        type="radio"
+                                        checked={mode === 'new'}
+                                        onChange={() => setMode('new')}
+                                    />
+                                    <span className="toggle-text">New person</span>
+                                </label>
+                                <label className="toggle-label">
+                                    <input
+                                        type="radio"
+                                        checked={mode === 'existing'}
+                                        onChange={() => setMode('existing')}
+                                        disabled={people.length === 0}
+                                    />
+                                    <span className="toggle-text">Add to existing person</span>
+                                </label>
+                            </div>
+
+                            {mode === 'new' ? (
+                                <>
+                                    <div className="input-group">
+                                        <label className="input-label">Name</label>
+                                        <input
+                                            type="text"
+                                            className="input"
+                                            placeholder="e.g., Nurse Maria"
+                                            value={formData.name}
+                                            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                            required
+                                        />
+                                    </div>
+                                    <div className="input-group">
+                                        <label className="input-label">Relation</label>
+                                        <input
+                                            type="text"
+                                            className="input"
+                                            placeholder="e.g., Visiting Nurse, Carer"
+                                            value={formData.relation}
+                                            onChange={(e) => setFormData({ ...formData, relation: e.target.value })}
+                                            required
+                                        />
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="input-group">
+                                    <label className="input-label">Person</label>
+                                    <select
+                                        className="input"
+                                        value={existingPersonId ?? ''}
+                                        onChange={(e) => setExistingPersonId(e.target.value ? parseInt(e.target.value) : null)}
+                                        required
+                                    >
+                                        <option value="">Choose a person...</option>
+                                        {people.map((person) => (
+                                            <option key={person.id} value={person.id}>
+                                                {person.name} ({person.relation})
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="modal-footer">
+                                <button type="button" className="btn btn-secondary" onClick={() => setEnrolling(null)}>
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    className="btn btn-primary"
+                                    disabled={saving || (mode === 'new'
+                                        ? !formData.name || !formData.relation
+                                        : !existingPersonId)}
+                                >
+                                    {saving ? 'Saving...' : mode === 'new' ? 'Create Person' : 'Add Samples'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {people.length > 0 && clusters.length > 0 && (
+                <p className="visitors-footnote">
+                    Enrolled visitors are recognized next time. Manage everyone on the <Link to="/people">People</Link> page.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -2,4 +2,8 @@ export { Dashboard } from './Dashboard';
 export { People } from './People';
 export { PersonDetail } from './PersonDetail';
 export { ARViewer } from './ARViewer';
-
+export { Visitors } from './Visitors';
+export { DuplicatePeople } from './DuplicatePeople';
+export { Evaluation } from './Evaluation';
+export { Orientation } from './Orientation';
+export { FamilyTree } from './FamilyTree';
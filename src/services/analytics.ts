@@ -0,0 +1,131 @@
+import type { Encounter } from '../db/database';
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Average confidence below this suggests the person's enrollment photos need replacing
+export const LOW_CONFIDENCE = 0.55;
+
+export function lastDays(days: number, now = new Date()): DateRange {
+    const from = startOfDay(new Date(now.getTime() - (days - 1) * DAY_MS));
+    return { from, to: now };
+}
+
+export function startOfDay(date: Date): Date {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day;
+}
+
+/**
+ * Monday 00:00 of the date's week
+ */
+export function startOfWeek(date: Date): Date {
+    const day = startOfDay(date);
+    day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+    return day;
+}
+
+function eachStep(range: DateRange, first: Date, advance: (date: Date) => void): Date[] {
+    const steps: Date[] = [];
+    for (const step = new Date(first); step <= range.to; advance(step)) {
+        steps.push(new Date(step));
+    }
+    return steps;
+}
+
+/**
+ * Visit counts per person for each week in the range
+ */
+export function visitsPerPersonPerWeek(
+    encounters: Encounter[],
+    range: DateRange
+): { weeks: Date[]; rows: Array<{ personId: number; counts: number[]; total: number }> } {
+    const weeks = eachStep(range, startOfWeek(range.from), step => step.setDate(step.getDate() + 7));
+    const rows = new Map<number, number[]>();
+
+    for (const encounter of encounters) {
+        const week = startOfWeek(encounter.startedAt).getTime();
+        const index = weeks.findIndex(w => w.getTime() === week);
+        if (index === -1) continue;
+        const counts = rows.get(encounter.personId) ?? weeks.map(() => 0);
+        counts[index]++;
+        rows.set(encounter.personId, counts);
+    }
+
+    return {
+        weeks,
+        rows: [...rows]
+            .map(([personId, counts]) => ({ personId, counts, total: counts.reduce((sum, c) => sum + c, 0) }))
+            .sort((a, b) => b.total - a.total),
+    };
+}
+
+/**
+ * Visits by weekday (0 = Monday) and hour of arrival
+ */
+export function timeOfDayHeatmap(encounters: Encounter[]): number[][] {
+    const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    for (const encounter of encounters) {
+        const start = new Date(encounter.startedAt);
+        grid[(start.getDay() + 6) % 7][start.getHours()]++;
+    }
+    return grid;
+}
+
+/**
+ * People whose last visit is older than `days`, longest absent first. Never-seen people are included.
+ */
+export function peopleNotSeenIn<P extends { id?: number }>(
+    people: P[],
+    lastSeen: Map<number, Date>,
+    days: number,
+    now = new Date()
+): Array<{ person: P; lastSeen: Date | null }> {
+    const cutoff = now.getTime() - days * DAY_MS;
+    return people
+        .map(person => ({ person, lastSeen: lastSeen.get(person.id!) ?? null }))
+        .filter(entry => !entry.lastSeen || entry.lastSeen.getTime() < cutoff)
+        .sort((a, b) => (a.lastSeen?.getTime() ?? 0) - (b.lastSeen?.getTime() ?? 0));
+}
+
+/**
+ * Unknown face sightings per day in the range
+ */
+export function countPerDay(times: Date[], range: DateRange): Array<{ day: Date; count: number }> {
+    const days = eachStep(range, startOfDay(range.from), step => step.setDate(step.getDate() + 1));
+    const counts = new Map(days.map(day => [day.getTime(), 0]));
+    for (const time of times) {
+        const key = startOfDay(time).getTime();
+        if (counts.has(key)) counts.set(key, counts.get(key)! + 1);
+    }
+    return days.map(day => ({ day, count: counts.get(day.getTime())! }));
+}
+
+/**
+ * Average recognition confidence per person, weighted by how many frames each visit lasted
+ */
+export function confidenceByPerson(
+    encounters: Encounter[]
+): Array<{ personId: number; averageSimilarity: number; visits: number }> {
+    const totals = new Map<number, { weighted: number; frames: number; visits: number }>();
+    for (const encounter of encounters) {
+        const total = totals.get(encounter.personId) ?? { weighted: 0, frames: 0, visits: 0 };
+        total.weighted += encounter.averageSimilarity * encounter.frameCount;
+        total.frames += encounter.frameCount;
+        total.visits++;
+        totals.set(encounter.personId, total);
+    }
+
+    return [...totals]
+        .map(([personId, total]) => ({
+            personId,
+            averageSimilarity: total.frames > 0 ? total.weighted / total.frames : 0,
+            visits: total.visits,
+        }))
+        .sort((a, b) => a.averageSimilarity - b.averageSimilarity);
+}
@@ -0,0 +1,113 @@
+import type { Person } from '../db/database';
+import { playClip } from './voiceClips';
+
+/**
+ * Spoken announcements for patients who cannot read the AR labels
+ */
+export interface SpeechSettings {
+    quiet: boolean;
+    voiceURI: string; // '' = browser default voice
+    rate: number;
+    volume: number;
+    cooldownMinutes: number; // Don't announce the same person again within this time
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+    quiet: false,
+    voiceURI: '',
+    rate: 0.9,
+    volume: 1,
+    cooldownMinutes: 10,
+};
+
+export function speechAvailable(): boolean {
+    return 'speechSynthesis' in window;
+}
+
+/**
+ * Installed voices. Some browsers load them asynchronously, so wait briefly for the first list.
+ */
+export function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+    if (!speechAvailable()) return Promise.resolve([]);
+
+    const voices = speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+
+    return new Promise((resolve) => {
+        const done = () => {
+            speechSynthesis.removeEventListener('voiceschanged', done);
+            resolve(speechSynthesis.getVoices());
+        };
+        speechSynthesis.addEventListener('voiceschanged', done);
+        setTimeout(done, 1000);
+    });
+}
+
+/**
+ * "This is Sarah, your daughter. Last time: talked about her hackathon."
+ */
+export function defaultAnnouncement(person: Pick<Person, 'name' | 'relation'>, lastSummary?: string): string {
+    const relation = person.relation.trim();
+    let text = relation ? `This is ${person.name}, your ${relation.toLowerCase()}.` : `This is ${person.name}.`;
+
+    // Only the first sentence; long summaries are hard to follow when spoken
+    const firstSentence = lastSummary?.trim().split(/(?<=[.!?])\s/)[0];
+    if (firstSentence) text += ` Last time: ${firstSentence}`;
+    return text;
+}
+
+export function announcementFor(person: Person, lastSummary?: string): string {
+    return person.announcementPhrase?.trim() || defaultAnnouncement(person, lastSummary);
+}
+
+/**
+ * Queue a phrase with the chosen voice, rate and volume
+ */
+export function speak(text: string, settings: SpeechSettings) {
+    if (!speechAvailable()) return;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = speechSynthesis.getVoices().find(v => v.voiceURI === settings.voiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.rate = settings.rate;
+    utterance.volume = settings.volume;
+    speechSynthesis.speak(utterance);
+}
+
+// The announcement clip playing right now, so it can be cut off like synthesized speech
+let playingClip: AbortController | null = null;
+
+function playAnnouncementClip(clip: Blob, volume: number) {
+    playingClip?.abort();
+    const controller = new AbortController();
+    playingClip = controller;
+    playClip(clip, volume, controller.signal).then(() => {
+        if (playingClip === controller) playingClip = null;
+    });
+}
+
+export function stopSpeaking() {
+    if (speechAvailable()) speechSynthesis.cancel();
+    playingClip?.abort();
+    playingClip = null;
+}
+
+/**
+ * Announces newly confirmed people, at most once per cooldown each.
+ * A recorded voice clip is played instead of the synthesized phrase when there is one.
+ */
+export class Announcer {
+    private lastAnnounced = new Map<number, number>();
+
+    announce(personId: number, text: string, settings: SpeechSettings, clip?: Blob, now = Date.now()): boolean {
+        if (settings.quiet) return false;
+
+        const last = this.lastAnnounced.get(personId);
+        if (last !== undefined && now - last < settings.cooldownMinutes * 60_000) return false;
+
+        this.lastAnnounced.set(personId, now);
+        if (clip) playAnnouncementClip(clip, settings.volume);
+        else speak(text, settings);
+        return true;
+    }
+}
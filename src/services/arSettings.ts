@@ -0,0 +1,105 @@
+import { getSetting, saveSetting } from '../db/database';
+import { DEFAULT_DETECTOR_OPTIONS, type DetectorOptions, type MatchStrategy } from './faceDetection';
+import { DEFAULT_SPEECH_SETTINGS, type SpeechSettings } from './announcements';
+import { DEFAULT_STEREO_SETTINGS, type StereoSettings } from './stereoView';
+import { DEFAULT_OVERLAY_CARD_SETTINGS, withAllCardKinds, type OverlayCardSettings } from './overlayCards';
+
+export type CameraResolution = '640x480' | '1280x720' | '1920x1080';
+
+/**
+ * How the AR viewer runs on this device. Stored in the local settings table,
+ * so a tablet and the glasses' phone can be tuned separately.
+ */
+export interface ARSettings {
+    cameraDeviceId: string; // '' = default front camera
+    resolution: CameraResolution;
+    detector: DetectorOptions;
+    matchStrategy: MatchStrategy;
+    recognitionIntervalMs: number;
+    mirror: boolean;
+    startInRayBanMode: boolean;
+    stereo: StereoSettings; // Headset fit for Ray-Ban mode
+    speech: SpeechSettings;
+    cards: OverlayCardSettings; // What the label under a recognized person cycles through
+    deviceName: string; // '' = describe from the browser, see defaultDeviceName
+}
+
+export const DEFAULT_AR_SETTINGS: ARSettings = {
+    cameraDeviceId: '',
+    resolution: '1280x720',
+    detector: DEFAULT_DETECTOR_OPTIONS,
+    matchStrategy: 'best',
+    recognitionIntervalMs: 200,
+    mirror: false,
+    startInRayBanMode: false,
+    stereo: DEFAULT_STEREO_SETTINGS,
+    speech: DEFAULT_SPEECH_SETTINGS,
+    cards: DEFAULT_OVERLAY_CARD_SETTINGS,
+    deviceName: '',
+};
+
+export const RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+    '640x480': { width: 640, height: 480 },
+    '1280x720': { width: 1280, height: 720 },
+    '1920x1080': { width: 1920, height: 1080 },
+};
+
+export const DETECTOR_INPUT_SIZES = [160, 224, 320, 416, 512, 608];
+
+const SETTINGS_KEY = 'arSettings';
+
+export async function loadARSettings(): Promise<ARSettings> {
+    const stored = await getSetting<Partial<ARSettings>>(SETTINGS_KEY, {});
+    // Fill in anything added since the settings were saved
+    return {
+        ...DEFAULT_AR_SETTINGS,
+        ...stored,
+        detector: { ...DEFAULT_AR_SETTINGS.detector, ...stored.detector },
+        speech: { ...DEFAULT_AR_SETTINGS.speech, ...stored.speech },
+        stereo: { ...DEFAULT_AR_SETTINGS.stereo, ...stored.stereo },
+        cards: withAllCardKinds({ ...DEFAULT_AR_SETTINGS.cards, ...stored.cards }),
+    };
+}
+
+export async function saveARSettings(settings: ARSettings): Promise<void> {
+    await saveSetting(SETTINGS_KEY, settings);
+}
+
+/**
+ * Rough description of this device for the visit log, e.g. "Android tablet"
+ */
+export function defaultDeviceName(): string {
+    const agent = navigator.userAgent;
+    if (/iPad/.test(agent) || (/Macintosh/.test(agent) && navigator.maxTouchPoints > 1)) return 'iPad';
+    if (/iPhone/.test(agent)) return 'iPhone';
+    if (/Android/.test(agent)) return /Mobile/.test(agent) ? 'Android phone' : 'Android tablet';
+    if (/Windows/.test(agent)) return 'Windows computer';
+    if (/Macintosh/.test(agent)) return 'Mac';
+    if (/Linux/.test(agent)) return 'Linux computer';
+    return 'Unknown device';
+}
+
+export function deviceNameFor(settings: ARSettings): string {
+    return settings.deviceName.trim() || defaultDeviceName();
+}
+
+/**
+ * getUserMedia constraints for the chosen camera and resolution
+ */
+export function videoConstraints(settings: ARSettings): MediaTrackConstraints {
+    const { width, height } = RESOLUTIONS[settings.resolution];
+    return {
+        ...(settings.cameraDeviceId ? { deviceId: { exact: settings.cameraDeviceId } } : { facingMode: 'user' }),
+        width: { ideal: width },
+        height: { ideal: height },
+    };
+}
+
+/**
+ * Every camera the browser can see, including rear and USB cameras.
+ * Labels are only filled in once camera permission has been granted.
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+}
@@ -0,0 +1,56 @@
+// Minimal Web Speech recognition surface; the DOM typings only ship the result types
+interface SpeechRecognizer {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start(): void;
+    stop(): void;
+}
+
+type SpeechRecognizerConstructor = new () => SpeechRecognizer;
+
+function recognizerConstructor(): SpeechRecognizerConstructor | undefined {
+    const speechWindow = window as Window & {
+        SpeechRecognition?: SpeechRecognizerConstructor;
+        webkitSpeechRecognition?: SpeechRecognizerConstructor;
+    };
+    return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+export function dictationAvailable(): boolean {
+    return recognizerConstructor() !== undefined;
+}
+
+/**
+ * Transcribe speech until stopped. Each finished phrase is passed to `onText`;
+ * `onEnd` runs however dictation stops, including errors and the browser timing out.
+ * Returns a function that stops listening.
+ */
+export function startDictation(onText: (text: string) => void, onEnd: (error?: string) => void): () => void {
+    const Recognizer = recognizerConstructor();
+    if (!Recognizer) throw new Error('Dictation is not supported in this browser');
+
+    const recognizer = new Recognizer();
+    recognizer.lang = navigator.language;
+    recognizer.continuous = true;
+    recognizer.interimResults = false;
+
+    let failure: string | undefined;
+    recognizer.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const result = event.results[i];
+            if (result.isFinal) onText(result[0].transcript.trim());
+        }
+    };
+    recognizer.onerror = (event) => {
+        // "no-speech" and "aborted" just mean nothing more was said
+        if (event.error !== 'no-speech' && event.error !== 'aborted') failure = event.error;
+    };
+    recognizer.onend = () => onEnd(failure);
+
+    recognizer.start();
+    return () => recognizer.stop();
+}
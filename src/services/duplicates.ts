@@ -0,0 +1,51 @@
+import { scoreAgainstGallery } from './faceDetection';
+
+// Stricter than the live match threshold: only flag people who really look the same
+const DUPLICATE_THRESHOLD = 0.5;
+
+type Gallery = Array<{ id: number; descriptors: number[][] }>;
+
+/**
+ * Find an already enrolled person who looks like the given face
+ */
+export function findSimilarPerson(
+    descriptor: number[],
+    gallery: Gallery
+): { personId: number; similarity: number } | null {
+    const detected = new Float32Array(descriptor);
+    let best: { personId: number; similarity: number } | null = null;
+
+    for (const person of gallery) {
+        const similarity = scoreAgainstGallery(detected, person.descriptors, 'best');
+        if (similarity >= DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+            best = { personId: person.id, similarity };
+        }
+    }
+    return best;
+}
+
+/**
+ * Every pair of enrolled people whose galleries look alike, most similar first
+ */
+export function findDuplicatePairs(
+    gallery: Gallery
+): Array<{ firstId: number; secondId: number; similarity: number }> {
+    const pairs: Array<{ firstId: number; secondId: number; similarity: number }> = [];
+
+    for (let i = 0; i < gallery.length; i++) {
+        for (let j = i + 1; j < gallery.length; j++) {
+            let similarity = 0;
+            for (const descriptor of gallery[i].descriptors) {
+                similarity = Math.max(
+                    similarity,
+                    scoreAgainstGallery(new Float32Array(descriptor), gallery[j].descriptors, 'best')
+                );
+            }
+            if (similarity >= DUPLICATE_THRESHOLD) {
+                pairs.push({ firstId: gallery[i].id, secondId: gallery[j].id, similarity });
+            }
+        }
+    }
+
+    return pairs.sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,97 @@
+import { addEncounter, updateEncounter } from '../db/database';
+import type { TrackedIdentity } from './identityTracker';
+
+// A person who is out of view for less than this is still on the same visit
+const MERGE_GAP_MS = 2 * 60_000;
+// While a visit is ongoing, write its progress at most this often
+const SAVE_INTERVAL_MS = 10_000;
+
+interface OpenEncounter {
+    id: Promise<number>;
+    startedAt: number;
+    lastSeen: number;
+    lastSaved: number;
+    peakSimilarity: number;
+    similaritySum: number;
+    frameCount: number;
+}
+
+/**
+ * Turns per-frame recognitions into one stored encounter per visit.
+ * Consecutive frames of the same person are merged; short absences do not split a visit.
+ */
+export class EncounterLog {
+    private open = new Map<number, OpenEncounter>();
+    private readonly device: string;
+
+    constructor(device: string) {
+        this.device = device;
+    }
+
+    observe(identities: TrackedIdentity[], now = Date.now()) {
+        for (const identity of identities) {
+            if (!identity.visible) continue;
+
+            const encounter = this.open.get(identity.personId);
+            if (encounter) {
+                encounter.lastSeen = now;
+                encounter.peakSimilarity = Math.max(encounter.peakSimilarity, identity.similarity);
+                encounter.similaritySum += identity.similarity;
+                encounter.frameCount++;
+                if (now - encounter.lastSaved >= SAVE_INTERVAL_MS) this.save(encounter, now);
+                continue;
+            }
+
+            const id = addEncounter({
+                personId: identity.personId,
+                startedAt: new Date(now),
+                endedAt: new Date(now),
+                durationMs: 0,
+                peakSimilarity: identity.similarity,
+                averageSimilarity: identity.similarity,
+                frameCount: 1,
+                device: this.device,
+            });
+            id.catch(error => console.error('Error saving encounter:', error));
+
+            this.open.set(identity.personId, {
+                id,
+                startedAt: now,
+                lastSeen: now,
+                lastSaved: now,
+                peakSimilarity: identity.similarity,
+                similaritySum: identity.similarity,
+                frameCount: 1,
+            });
+        }
+
+        for (const [personId, encounter] of this.open) {
+            if (now - encounter.lastSeen > MERGE_GAP_MS) {
+                this.save(encounter, now);
+                this.open.delete(personId);
+            }
+        }
+    }
+
+    /**
+     * Store every ongoing visit as ended, e.g. when the AR view closes
+     */
+    closeAll(now = Date.now()) {
+        for (const encounter of this.open.values()) this.save(encounter, now);
+        this.open.clear();
+    }
+
+    private save(encounter: OpenEncounter, now: number) {
+        encounter.lastSaved = now;
+        const updates = {
+            endedAt: new Date(encounter.lastSeen),
+            durationMs: encounter.lastSeen - encounter.startedAt,
+            peakSimilarity: encounter.peakSimilarity,
+            averageSimilarity: encounter.similaritySum / encounter.frameCount,
+            frameCount: encounter.frameCount,
+        };
+        encounter.id
+            .then(id => updateEncounter(id, updates))
+            .catch(error => console.error('Error saving encounter:', error));
+    }
+}
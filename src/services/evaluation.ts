@@ -0,0 +1,143 @@
+import { scoreAgainstGallery, thresholdFor, type MatchThresholds } from './faceDetection';
+
+// Label for test photos of people who are not enrolled (should never be matched)
+export const UNKNOWN_LABEL = -1;
+
+export interface TestSample {
+    label: number; // person id, or UNKNOWN_LABEL
+    descriptor: number[];
+}
+
+export interface ScoredSample {
+    label: number;
+    scores: Map<number, number>; // person id -> similarity against that person's gallery
+}
+
+export interface ErrorRates {
+    threshold: number;
+    falseAcceptRate: number; // share of all photos matched to the wrong person
+    falseRejectRate: number; // share of enrolled people's photos not matched to them
+}
+
+const SWEEP_FROM = 0.2;
+const SWEEP_TO = 0.8;
+const SWEEP_STEP = 0.02;
+
+export function sweepValues(): number[] {
+    const values: number[] = [];
+    for (let t = SWEEP_FROM; t <= SWEEP_TO + 1e-9; t += SWEEP_STEP) {
+        values.push(Math.round(t * 100) / 100);
+    }
+    return values;
+}
+
+/**
+ * Score every test photo against every enrolled gallery once, so thresholds can be swept cheaply
+ */
+export function scoreSamples(
+    samples: TestSample[],
+    gallery: Array<{ id: number; descriptors: number[][] }>
+): ScoredSample[] {
+    return samples.map((sample) => {
+        const descriptor = new Float32Array(sample.descriptor);
+        return {
+            label: sample.label,
+            scores: new Map(gallery.map(person => [person.id, scoreAgainstGallery(descriptor, person.descriptors, 'best')])),
+        };
+    });
+}
+
+/**
+ * Who the live matcher would say this photo is under the given thresholds: like matchFaces,
+ * people below their own threshold are dropped first and the best of the rest wins
+ */
+export function predict(sample: ScoredSample, thresholds: MatchThresholds): number {
+    let best = { personId: UNKNOWN_LABEL, similarity: 0 };
+    for (const [personId, similarity] of sample.scores) {
+        if (similarity < thresholdFor(personId, thresholds)) continue;
+        if (best.personId === UNKNOWN_LABEL || similarity > best.similarity) best = { personId, similarity };
+    }
+    return best.personId;
+}
+
+/**
+ * Counts of true label -> predicted label
+ */
+export function confusionMatrix(scored: ScoredSample[], thresholds: MatchThresholds): Map<number, Map<number, number>> {
+    const matrix = new Map<number, Map<number, number>>();
+    for (const sample of scored) {
+        const predicted = predict(sample, thresholds);
+        const row = matrix.get(sample.label) ?? new Map<number, number>();
+        row.set(predicted, (row.get(predicted) ?? 0) + 1);
+        matrix.set(sample.label, row);
+    }
+    return matrix;
+}
+
+export function errorRates(scored: ScoredSample[], thresholds: MatchThresholds): Omit<ErrorRates, 'threshold'> {
+    let falseAccepts = 0;
+    let falseRejects = 0;
+    let genuine = 0;
+
+    for (const sample of scored) {
+        const predicted = predict(sample, thresholds);
+        if (predicted !== UNKNOWN_LABEL && predicted !== sample.label) falseAccepts++;
+        if (sample.label !== UNKNOWN_LABEL) {
+            genuine++;
+            if (predicted !== sample.label) falseRejects++;
+        }
+    }
+
+    return {
+        falseAcceptRate: scored.length > 0 ? falseAccepts / scored.length : 0,
+        falseRejectRate: genuine > 0 ? falseRejects / genuine : 0,
+    };
+}
+
+/**
+ * False-accept and false-reject rates for a range of global thresholds
+ */
+export function sweepThresholds(scored: ScoredSample[]): ErrorRates[] {
+    return sweepValues().map(threshold => ({
+        threshold,
+        ...errorRates(scored, { global: threshold, perPerson: {} }),
+    }));
+}
+
+/**
+ * Threshold with the lowest combined error. Ties go to the higher threshold,
+ * because greeting a stranger as family is worse than showing "Unknown face".
+ */
+export function recommendGlobalThreshold(rates: ErrorRates[]): number | null {
+    let best: ErrorRates | null = null;
+    for (const rate of rates) {
+        const total = rate.falseAcceptRate + rate.falseRejectRate;
+        if (!best || total <= best.falseAcceptRate + best.falseRejectRate) best = rate;
+    }
+    return best?.threshold ?? null;
+}
+
+/**
+ * For each person with test photos, the threshold that best separates their own
+ * photos from everyone else's when scored against their gallery
+ */
+export function recommendPerPersonThresholds(scored: ScoredSample[]): Record<number, number> {
+    const personIds = new Set(scored.flatMap(sample => [...sample.scores.keys()]));
+    const recommended: Record<number, number> = {};
+
+    for (const personId of personIds) {
+        const genuine = scored.filter(s => s.label === personId).map(s => s.scores.get(personId) ?? 0);
+        const impostor = scored.filter(s => s.label !== personId).map(s => s.scores.get(personId) ?? 0);
+        if (genuine.length === 0) continue;
+
+        let best: { threshold: number; errors: number } | null = null;
+        for (const threshold of sweepValues()) {
+            const errors = genuine.filter(score => score < threshold).length
+                + impostor.filter(score => score >= threshold).length;
+            if (!best || errors <= best.errors) best = { threshold, errors };
+        }
+        if (best) recommended[personId] = best.threshold;
+    }
+
+    return recommended;
+}
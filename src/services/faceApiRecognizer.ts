@@ -0,0 +1,58 @@
+import {
+    loadFaceDetectionModels,
+    extractFaceDescriptorFromBlob,
+    type DetectorOptions,
+    type MatchStrategy,
+    type MatchThresholds
+} from './faceDetection';
+import { FaceWorkerClient } from './faceWorkerClient';
+import { analyzePhoto, type AnalyzedFace } from './photoQuality';
+import type { FaceRecognizer, RecognizedFace } from './faceRecognizer';
+
+/**
+ * The real backend: face-api models, with live frames processed in a worker
+ */
+export class FaceApiRecognizer implements FaceRecognizer {
+    private readonly worker: FaceWorkerClient | null;
+
+    constructor(live: boolean) {
+        this.worker = live ? new FaceWorkerClient() : null;
+    }
+
+    private requireWorker(): FaceWorkerClient {
+        if (!this.worker) throw new Error('Recognizer was not created for live frames');
+        return this.worker;
+    }
+
+    loadModels(): Promise<void> {
+        return this.worker ? this.worker.init() : loadFaceDetectionModels();
+    }
+
+    setGallery(gallery: Array<{ id: number; descriptors: number[][] }>, thresholds: MatchThresholds) {
+        this.requireWorker().setGallery(gallery, thresholds);
+    }
+
+    setDetectorOptions(options: DetectorOptions) {
+        this.requireWorker().setDetectorOptions(options);
+    }
+
+    setMatchStrategy(strategy: MatchStrategy) {
+        this.requireWorker().setMatchStrategy(strategy);
+    }
+
+    recognizeFrame(video: HTMLVideoElement): Promise<RecognizedFace[]> {
+        return this.requireWorker().detect(video);
+    }
+
+    analyzePhoto(image: HTMLImageElement): Promise<AnalyzedFace[]> {
+        return analyzePhoto(image);
+    }
+
+    extractDescriptor(photo: Blob): Promise<number[] | null> {
+        return extractFaceDescriptorFromBlob(photo);
+    }
+
+    dispose() {
+        this.worker?.terminate();
+    }
+}
@@ -1,27 +1,31 @@
 import * as faceapi from '@vladmandic/face-api';
+import { loadVerifiedModels } from './modelLoader';
+
+export { ModelLoadError } from './modelLoader';
 
 let modelsLoaded = false;
+let loadingPromise: Promise<void> | null = null;
 
-export async function loadFaceDetectionModels(): Promise<boolean> {
-    if (modelsLoaded) return true;
+/**
+ * Load the bundled detector, landmark and recognition nets.
+ * Throws a ModelLoadError describing missing or corrupt files.
+ */
+export async function loadFaceDetectionModels(): Promise<void> {
+    if (modelsLoaded) return;
 
-    try {
-        // Load models from CDN (faster than local)
-        const MODEL_URL = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model';
-
-        await Promise.all([
-            faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-            faceapi.nets.faceLandmark68TinyNet.loadFromUri(MODEL_URL),
-            faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL), // For face recognition
-        ]);
-
-        modelsLoaded = true;
-        console.log('Face detection & recognition models loaded');
-        return true;
-    } catch (error) {
-        console.error('Failed to load face detection models:', error);
-        return false;
-    }
+    // Share one load between callers; allow a retry after a failure
+    loadingPromise ??= loadVerifiedModels(['tinyFaceDetector', 'faceLandmark68TinyNet', 'faceRecognitionNet'])
+        .then(() => {
+            modelsLoaded = true;
+            console.log('Face detection & recognition models loaded');
+        })
+        .catch((error) => {
+            loadingPromise = null;
+            console.error('Failed to load face detection models:', error);
+            throw error;
+        });
+
+    return loadingPromise;
 }
 
 export interface FacePosition {
@@ -31,75 +35,89 @@ export interface FacePosition {
     height: number;
 }
 
+/**
+ * Tiny face detector tuning for live frames. Smaller input sizes are faster but miss distant faces.
+ */
+export interface DetectorOptions {
+    inputSize: number; // multiple of 32
+    scoreThreshold: number;
+}
+
+export const DEFAULT_DETECTOR_OPTIONS: DetectorOptions = {
+    inputSize: 320,
+    scoreThreshold: 0.5,
+};
+
 export interface FaceDetectionResult {
     position: FacePosition;
     descriptor: Float32Array | null;
 }
 
 /**
- * Detect a face and get its descriptor (embedding) for recognition
+ * Detect every face in frame with its descriptor, for labelling several people at once.
+ * Accepts a video element on the main thread or raw frame pixels inside a worker.
  */
-export async function detectFaceWithDescriptor(video: HTMLVideoElement): Promise<FaceDetectionResult | null> {
-    if (!modelsLoaded) return null;
+export async function detectAllFacesWithDescriptors(
+    input: HTMLVideoElement | ImageData,
+    options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS
+): Promise<FaceDetectionResult[]> {
+    if (!modelsLoaded) return [];
+
+    const isFrame = input instanceof ImageData;
+    const frameWidth = isFrame ? input.width : input.videoWidth || input.clientWidth;
+    const frameHeight = isFrame ? input.height : input.videoHeight || input.clientHeight;
+    const frameTensor = isFrame ? faceapi.tf.browser.fromPixels(input) : null;
 
     try {
-        const detection = await faceapi
-            .detectSingleFace(video, new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 }))
-            .withFaceLandmarks(true) // Use tiny landmarks
-            .withFaceDescriptor();
+        const detections = await faceapi
+            .detectAllFaces(frameTensor ?? (input as HTMLVideoElement), new faceapi.TinyFaceDetectorOptions(options))
+            .withFaceLandmarks(true)
+            .withFaceDescriptors();
 
-        if (detection) {
+        return detections.map((detection) => {
             const { x, y, width, height } = detection.detection.box;
-            const videoWidth = video.videoWidth || video.clientWidth;
-            const videoHeight = video.videoHeight || video.clientHeight;
-
             return {
                 position: {
-                    x: ((x + width) / videoWidth) * 100,
-                    y: (y / videoHeight) * 100,
-                    width: (width / videoWidth) * 100,
-                    height: (height / videoHeight) * 100,
+                    x: ((x + width) / frameWidth) * 100,
+                    y: (y / frameHeight) * 100,
+                    width: (width / frameWidth) * 100,
+                    height: (height / frameHeight) * 100,
                 },
                 descriptor: detection.descriptor,
             };
-        }
-
-        return null;
+        });
     } catch (error) {
         console.error('Face detection error:', error);
-        return null;
+        return [];
+    } finally {
+        frameTensor?.dispose();
     }
 }
 
 /**
- * Simple face detection without descriptor (faster)
+ * Face boxes only, without landmarks or descriptors. A fraction of the cost of the full
+ * chain, used to follow faces that were already recognized.
  */
-export async function detectFace(video: HTMLVideoElement): Promise<FacePosition | null> {
-    if (!modelsLoaded) return null;
+export async function detectAllFaceBoxes(
+    frame: ImageData,
+    options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS
+): Promise<FacePosition[]> {
+    if (!modelsLoaded) return [];
 
+    const frameTensor = faceapi.tf.browser.fromPixels(frame);
     try {
-        const detection = await faceapi.detectSingleFace(
-            video,
-            new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 })
-        );
-
-        if (detection) {
-            const { x, y, width, height } = detection.box;
-            const videoWidth = video.videoWidth || video.clientWidth;
-            const videoHeight = video.videoHeight || video.clientHeight;
-
-            return {
-                x: ((x + width) / videoWidth) * 100,
-                y: (y / videoHeight) * 100,
-                width: (width / videoWidth) * 100,
-                height: (height / videoHeight) * 100,
-            };
-        }
-
-        return null;
+        const detections = await faceapi.detectAllFaces(frameTensor, new faceapi.TinyFaceDetectorOptions(options));
+        return detections.map(({ box }) => ({
+            x: ((box.x + box.width) / frame.width) * 100,
+            y: (box.y / frame.height) * 100,
+            width: (box.width / frame.width) * 100,
+            height: (box.height / frame.height) * 100,
+        }));
     } catch (error) {
         console.error('Face detection error:', error);
-        return null;
+        return [];
+    } finally {
+        frameTensor.dispose();
     }
 }
 
@@ -107,11 +125,9 @@ export async function detectFace(video: HTMLVideoElement): Promise<FacePosition
  * Extract face descriptor from an image (for storing when adding a person)
  */
 export async function extractFaceDescriptor(imageElement: HTMLImageElement): Promise<number[] | null> {
-    if (!modelsLoaded) {
+    try {
         await loadFaceDetectionModels();
-    }
 
-    try {
         const detection = await faceapi
             .detectSingleFace(imageElement, new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: 0.3 }))
             .withFaceLandmarks(true)
@@ -130,6 +146,24 @@ export async function extractFaceDescriptor(imageElement: HTMLImageElement): Pro
     }
 }
 
+/**
+ * Extract face descriptor from an uploaded photo file or stored blob
+ */
+export async function extractFaceDescriptorFromBlob(blob: Blob): Promise<number[] | null> {
+    const url = URL.createObjectURL(blob);
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        return await extractFaceDescriptor(img);
+    } catch (error) {
+        console.error('Error loading image for face extraction:', error);
+        return null;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
 /**
  * Compare two face descriptors and return similarity score (0-1, higher = more similar)
  */
@@ -146,33 +180,87 @@ export function compareFaces(descriptor1: number[] | Float32Array, descriptor2:
     return similarity;
 }
 
+export type MatchStrategy = 'best' | 'centroid';
+
 /**
- * Find the best matching person from a list of stored descriptors
+ * Average several descriptors into a single representative one
  */
-export function findBestMatch(
-    detectedDescriptor: Float32Array,
-    storedPeople: Array<{ id: number; descriptor: number[] }>
-): { personId: number; similarity: number } | null {
-    if (storedPeople.length === 0) return null;
+export function computeCentroid(descriptors: Array<number[] | Float32Array>): Float32Array {
+    const centroid = new Float32Array(descriptors[0].length);
+    for (const descriptor of descriptors) {
+        for (let i = 0; i < centroid.length; i++) {
+            centroid[i] += descriptor[i] / descriptors.length;
+        }
+    }
+    return centroid;
+}
+
+export const DEFAULT_MATCH_THRESHOLD = 0.4; // 0.6 Euclidean distance
 
-    let bestMatch = { personId: -1, similarity: 0 };
-    const MATCH_THRESHOLD = 0.4; // 0.6 Euclidean distance
+/**
+ * Minimum similarity for a match; calibrated per person on the evaluation page
+ */
+export interface MatchThresholds {
+    global: number;
+    perPerson: Record<number, number>;
+}
 
-    for (const person of storedPeople) {
-        const similarity = compareFaces(detectedDescriptor, person.descriptor);
-        console.log(`Comparing with person ${person.id}: similarity ${similarity.toFixed(2)}`);
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = {
+    global: DEFAULT_MATCH_THRESHOLD,
+    perPerson: {},
+};
 
+export function thresholdFor(personId: number, thresholds: MatchThresholds): number {
+    return thresholds.perPerson[personId] ?? thresholds.global;
+}
 
-        if (similarity > bestMatch.similarity) {
-            bestMatch = { personId: person.id, similarity };
-        }
+/**
+ * Score a detected descriptor against one person's gallery.
+ * 'best' scores a person by their closest sample, 'centroid' by the average of all samples.
+ */
+export function scoreAgainstGallery(
+    detectedDescriptor: Float32Array,
+    descriptors: number[][],
+    strategy: MatchStrategy
+): number {
+    if (descriptors.length === 0) return 0;
+    if (strategy === 'centroid') {
+        return compareFaces(detectedDescriptor, computeCentroid(descriptors));
     }
+    return Math.max(...descriptors.map(d => compareFaces(detectedDescriptor, d)));
+}
+
+/**
+ * Match several faces from the same frame at once. Pairs are assigned greedily from the
+ * most similar down, so a person is never given to two faces. Result is index-aligned with
+ * the input descriptors; unmatched faces are null.
+ */
+export function matchFaces(
+    detectedDescriptors: Float32Array[],
+    storedPeople: Array<{ id: number; descriptors: number[][] }>,
+    strategy: MatchStrategy = 'best',
+    thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS
+): Array<{ personId: number; similarity: number } | null> {
+    const candidates: Array<{ face: number; personId: number; similarity: number }> = [];
 
-    // Only return if best match meets threshold
-    if (bestMatch.similarity >= MATCH_THRESHOLD) {
-        return bestMatch;
+    detectedDescriptors.forEach((descriptor, face) => {
+        for (const person of storedPeople) {
+            const similarity = scoreAgainstGallery(descriptor, person.descriptors, strategy);
+            if (similarity >= thresholdFor(person.id, thresholds)) {
+                candidates.push({ face, personId: person.id, similarity });
+            }
+        }
+    });
+    candidates.sort((a, b) => b.similarity - a.similarity);
+
+    const result: Array<{ personId: number; similarity: number } | null> = detectedDescriptors.map(() => null);
+    const assignedPeople = new Set<number>();
+
+    for (const candidate of candidates) {
+        if (result[candidate.face] || assignedPeople.has(candidate.personId)) continue;
+        result[candidate.face] = { personId: candidate.personId, similarity: candidate.similarity };
+        assignedPeople.add(candidate.personId);
     }
 
-    return null;
+    return result;
 }
-
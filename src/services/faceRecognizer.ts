@@ -0,0 +1,84 @@
+import type { DetectorOptions, FacePosition, MatchStrategy, MatchThresholds } from './faceDetection';
+import type { AnalyzedFace } from './photoQuality';
+import { FaceApiRecognizer } from './faceApiRecognizer';
+import { ScriptedRecognizer, DEMO_SCRIPT, type RecognizerScript } from './scriptedRecognizer';
+
+export interface RecognizedFace {
+    position: FacePosition;
+    personId: number | null; // null = face seen but not matched
+    similarity: number;
+    descriptor?: number[]; // Only set for unmatched faces, for the unknown visitors inbox
+}
+
+/**
+ * Everything the app needs from a face recognition backend.
+ * Pages talk to this instead of face-api so the flows can run against a scripted fake.
+ */
+export interface FaceRecognizer {
+    /** Load and verify models. Rejects with a ModelLoadError on failure. */
+    loadModels(): Promise<void>;
+    /** People that live frames are matched against */
+    setGallery(gallery: Array<{ id: number; descriptors: number[][] }>, thresholds: MatchThresholds): void;
+    /** Detector tuning for live frames */
+    setDetectorOptions(options: DetectorOptions): void;
+    /** Score people by their closest sample or by the average of their samples */
+    setMatchStrategy(strategy: MatchStrategy): void;
+    /** Detect every face in the current video frame and match it against the gallery */
+    recognizeFrame(video: HTMLVideoElement): Promise<RecognizedFace[]>;
+    /** Find and grade every face in an enrollment photo */
+    analyzePhoto(image: HTMLImageElement): Promise<AnalyzedFace[]>;
+    /** Descriptor of the main face in a photo, or null when there is none */
+    extractDescriptor(photo: Blob): Promise<number[] | null>;
+    dispose(): void;
+}
+
+export type RecognizerBackend = 'face-api' | 'fake';
+
+declare global {
+    interface Window {
+        // Set by headless tests before the app loads to script what the fake backend sees
+        faceRecognizerScript?: RecognizerScript;
+    }
+}
+
+const BACKEND_STORAGE_KEY = 'faceRecognizer';
+
+let backend: RecognizerBackend | null = null;
+let sharedRecognizer: FaceRecognizer | null = null;
+
+/**
+ * Pick the backend once at startup: `?recognizer=fake` (kept for the tab's session),
+ * then VITE_FACE_RECOGNIZER, then face-api.
+ */
+export function selectRecognizerBackend(): RecognizerBackend {
+    if (backend) return backend;
+
+    const fromUrl = new URLSearchParams(window.location.search).get('recognizer');
+    if (fromUrl === 'fake' || fromUrl === 'face-api') {
+        sessionStorage.setItem(BACKEND_STORAGE_KEY, fromUrl);
+    }
+    const chosen = sessionStorage.getItem(BACKEND_STORAGE_KEY) ?? import.meta.env.VITE_FACE_RECOGNIZER;
+    backend = chosen === 'fake' ? 'fake' : 'face-api';
+
+    if (backend === 'fake') console.warn('Using the scripted fake face recognizer');
+    return backend;
+}
+
+/**
+ * New recognizer for the selected backend. Pass `live` when it will process camera frames;
+ * the face-api backend then runs detection in a worker and must be disposed.
+ */
+export function createFaceRecognizer(options: { live?: boolean } = {}): FaceRecognizer {
+    if (selectRecognizerBackend() === 'fake') {
+        return new ScriptedRecognizer(window.faceRecognizerScript ?? DEMO_SCRIPT);
+    }
+    return new FaceApiRecognizer(options.live ?? false);
+}
+
+/**
+ * Shared recognizer for enrollment and photo analysis
+ */
+export function getFaceRecognizer(): FaceRecognizer {
+    sharedRecognizer ??= createFaceRecognizer();
+    return sharedRecognizer;
+}
@@ -0,0 +1,130 @@
+/**
+ * Lightweight face tracking between recognitions.
+ *
+ * Computing descriptors is the expensive part of recognition. Once a face has been
+ * recognized, the tracker follows its box from frame to frame by overlap (IOU) using
+ * detection alone, and carries the identity along. A face only needs the full chain
+ * again when it is new, was lost, or is due for a periodic recheck.
+ *
+ * Pure logic: callers pass boxes, recognition results and a timestamp.
+ */
+
+import type { FacePosition } from './faceDetection';
+import type { RecognizedFace } from './faceRecognizer';
+
+export interface FaceTrackerOptions {
+    minIou: number; // Overlap needed to treat a box as the same face as the previous frame
+    recheckMs: number; // Recompute descriptors of followed faces this often
+    lostAfterMs: number; // Forget a face that has not been detected for this long
+}
+
+export const DEFAULT_FACE_TRACKER_OPTIONS: FaceTrackerOptions = {
+    minIou: 0.3,
+    recheckMs: 2000,
+    lostAfterMs: 600,
+};
+
+interface Track {
+    face: RecognizedFace;
+    recognizedAt: number;
+    lastSeen: number;
+}
+
+/**
+ * Intersection over union of two face boxes (x is the right edge, all in percent)
+ */
+export function boxIou(a: FacePosition, b: FacePosition): number {
+    const left = Math.max(a.x - a.width, b.x - b.width);
+    const right = Math.min(a.x, b.x);
+    const top = Math.max(a.y, b.y);
+    const bottom = Math.min(a.y + a.height, b.y + b.height);
+    const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+    const union = a.width * a.height + b.width * b.height - intersection;
+    return union > 0 ? intersection / union : 0;
+}
+
+export class FaceTracker {
+    private tracks: Track[] = [];
+    private untrackedFaceSeen = false;
+    private readonly options: FaceTrackerOptions;
+
+    constructor(options: FaceTrackerOptions = DEFAULT_FACE_TRACKER_OPTIONS) {
+        this.options = options;
+    }
+
+    /**
+     * Pair boxes with tracks, most overlapping first. Index-aligned with boxes; null = no track.
+     */
+    private associate(boxes: FacePosition[]): Array<Track | null> {
+        const pairs: Array<{ box: number; track: Track; iou: number }> = [];
+        boxes.forEach((box, index) => {
+            for (const track of this.tracks) {
+                const iou = boxIou(box, track.face.position);
+                if (iou >= this.options.minIou) pairs.push({ box: index, track, iou });
+            }
+        });
+        pairs.sort((a, b) => b.iou - a.iou);
+
+        const result: Array<Track | null> = boxes.map(() => null);
+        const used = new Set<Track>();
+        for (const pair of pairs) {
+            if (result[pair.box] || used.has(pair.track)) continue;
+            result[pair.box] = pair.track;
+            used.add(pair.track);
+        }
+        return result;
+    }
+
+    private dropLost(now: number) {
+        this.tracks = this.tracks.filter(track => now - track.lastSeen <= this.options.lostAfterMs);
+    }
+
+    /**
+     * Whether the next frame needs the full chain, decided before detecting anything in it
+     * so a recognition frame runs detection once: nothing is being followed, a face is due
+     * for a recheck, or the last followed frame had a face no track could account for
+     */
+    recognitionDue(now: number): boolean {
+        this.dropLost(now);
+        return this.tracks.length === 0 ||
+            this.untrackedFaceSeen ||
+            this.tracks.some(track => now - track.recognizedAt >= this.options.recheckMs);
+    }
+
+    /**
+     * Start over from a fully recognized frame
+     */
+    recognized(faces: RecognizedFace[], now: number): RecognizedFace[] {
+        this.tracks = faces.map(face => ({ face, recognizedAt: now, lastSeen: now }));
+        this.untrackedFaceSeen = false;
+        return faces;
+    }
+
+    /**
+     * Move known faces to their new boxes, keeping their identities
+     */
+    follow(boxes: FacePosition[], now: number): RecognizedFace[] {
+        const tracks = this.associate(boxes);
+        const faces: RecognizedFace[] = [];
+
+        boxes.forEach((position, index) => {
+            const track = tracks[index];
+            if (!track) {
+                // A new face: recognize it on the next frame
+                this.untrackedFaceSeen = true;
+                return;
+            }
+            track.face = { ...track.face, position };
+            track.lastSeen = now;
+            faces.push(track.face);
+        });
+
+        this.dropLost(now);
+        return faces;
+    }
+
+    reset() {
+        this.tracks = [];
+        this.untrackedFaceSeen = false;
+    }
+}
@@ -0,0 +1,128 @@
+import { ModelLoadError } from './modelLoader';
+import type { DetectorOptions, MatchStrategy, MatchThresholds } from './faceDetection';
+import type { RecognizedFace } from './faceRecognizer';
+import type { FaceWorkerRequest, FaceWorkerResponse } from '../workers/protocol';
+
+type SettingRequest = Exclude<FaceWorkerRequest, { type: 'init' } | { type: 'detect' }>;
+
+/**
+ * Main-thread handle on the face recognition worker.
+ * Frames go in as ImageBitmaps; only positions and matched person IDs come back.
+ * A worker that crashes is replaced on the next init() or detect().
+ */
+export class FaceWorkerClient {
+    private worker: Worker | null = null;
+    private nextFrameId = 1;
+    private pendingFrames = new Map<number, (faces: RecognizedFace[]) => void>();
+    private readyPromise: Promise<void> | null = null;
+    // Latest gallery and tuning, replayed to a replacement worker
+    private settings = new Map<SettingRequest['type'], SettingRequest>();
+
+    private send(request: FaceWorkerRequest, transfer: Transferable[] = []) {
+        this.worker?.postMessage(request, transfer);
+    }
+
+    private setting(request: SettingRequest) {
+        this.settings.set(request.type, request);
+        this.send(request);
+    }
+
+    // Frames sent to a worker that is going away will never get an answer
+    private settlePendingFrames() {
+        for (const resolve of this.pendingFrames.values()) resolve([]);
+        this.pendingFrames.clear();
+    }
+
+    /**
+     * Load and verify the models inside the worker. Rejects with a ModelLoadError on failure.
+     */
+    init(): Promise<void> {
+        this.readyPromise ??= new Promise<void>((resolve, reject) => {
+            const worker = this.worker ?? new Worker(new URL('../workers/faceWorker.ts', import.meta.url), { type: 'module' });
+            this.worker = worker;
+
+            worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+                const response = event.data;
+                switch (response.type) {
+                    case 'ready':
+                        resolve();
+                        break;
+                    case 'error':
+                        reject(new ModelLoadError(response.message, response.problems));
+                        break;
+                    case 'result':
+                        this.pendingFrames.get(response.frameId)?.(response.faces);
+                        this.pendingFrames.delete(response.frameId);
+                        break;
+                }
+            };
+            worker.onerror = (event) => {
+                console.error('Face worker crashed:', event.message);
+                worker.terminate();
+                if (this.worker === worker) {
+                    this.worker = null;
+                    this.readyPromise = null;
+                }
+                this.settlePendingFrames();
+                reject(new Error(`Face worker crashed: ${event.message}`));
+            };
+
+            this.send({ type: 'init' });
+            for (const request of this.settings.values()) this.send(request);
+        }).catch((error) => {
+            // Let a later init() try again instead of handing back the same failure
+            this.readyPromise = null;
+            throw error;
+        });
+        return this.readyPromise;
+    }
+
+    setGallery(gallery: Array<{ id: number; descriptors: number[][] }>, thresholds: MatchThresholds) {
+        this.setting({ type: 'setGallery', gallery, thresholds });
+    }
+
+    setDetectorOptions(options: DetectorOptions) {
+        this.setting({ type: 'setDetectorOptions', options });
+    }
+
+    setMatchStrategy(strategy: MatchStrategy) {
+        this.setting({ type: 'setMatchStrategy', strategy });
+    }
+
+    /**
+     * Grab the current video frame and resolve with the faces the worker found in it.
+     * Resolves empty when there is no frame to grab, e.g. while the camera is switching,
+     * or while a crashed worker is being replaced.
+     */
+    async detect(video: HTMLVideoElement): Promise<RecognizedFace[]> {
+        if (!this.worker) {
+            try {
+                await this.init();
+            } catch (error) {
+                console.error('Error restarting face worker:', error);
+                return [];
+            }
+        }
+
+        let frame: ImageBitmap;
+        try {
+            frame = await createImageBitmap(video);
+        } catch (error) {
+            console.error('Error grabbing video frame:', error);
+            return [];
+        }
+        const frameId = this.nextFrameId++;
+
+        return new Promise((resolve) => {
+            this.pendingFrames.set(frameId, resolve);
+            this.send({ type: 'detect', frameId, frame }, [frame]);
+        });
+    }
+
+    terminate() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.readyPromise = null;
+        this.settlePendingFrames();
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * Temporal identity voting for the AR view.
+ *
+ * Single-frame matches are noisy: one blurry frame can turn "Sarah" into "Unknown face"
+ * or into another relative. The tracker follows each face across frames, keeps a rolling
+ * window of its match results and only confirms or changes an identity once enough frames
+ * agree. When a face briefly disappears the last identity is held for a grace period.
+ *
+ * Pure logic: callers pass observations and a timestamp, no video or DOM access.
+ */
+
+import type { FacePosition } from './faceDetection';
+
+export interface IdentityTrackerOptions {
+    windowSize: number; // How many recent frames each face votes over
+    consensus: number; // Votes needed within the window to confirm or change identity
+    gracePeriodMs: number; // How long to hold an identity while its face is not seen
+    maxJump: number; // Max movement (in screen percent) to treat a face as the same one
+}
+
+export const DEFAULT_IDENTITY_OPTIONS: IdentityTrackerOptions = {
+    windowSize: 7,
+    consensus: 4,
+    gracePeriodMs: 1500,
+    maxJump: 20,
+};
+
+export interface FaceObservation {
+    position: FacePosition;
+    personId: number | null; // null = face seen but not matched
+    similarity: number;
+    descriptor?: number[]; // Only present for unmatched faces
+}
+
+export interface TrackedIdentity {
+    trackId: number;
+    personId: number;
+    similarity: number;
+    position: FacePosition;
+    visible: boolean; // false while held during the grace period
+}
+
+interface Track<T extends FaceObservation> {
+    id: number;
+    votes: Array<number | null>;
+    similarities: Map<number, number>;
+    confirmedId: number | null;
+    decided: boolean; // false until any candidate (including "unknown") reaches consensus
+    lastObservation: T;
+    position: FacePosition;
+    lastSeen: number;
+}
+
+export class IdentityTracker<T extends FaceObservation = FaceObservation> {
+    private readonly options: IdentityTrackerOptions;
+    private tracks: Track<T>[] = [];
+    private visibleTracks = new Set<Track<T>>();
+    private nextTrackId = 1;
+
+    constructor(options: Partial<IdentityTrackerOptions> = {}) {
+        this.options = { ...DEFAULT_IDENTITY_OPTIONS, ...options };
+    }
+
+    /**
+     * Feed one frame's observations; returns the confirmed identities after this frame
+     */
+    update(observations: T[], now: number): TrackedIdentity[] {
+        const seen = new Set<Track<T>>();
+
+        for (const observation of this.associate(observations)) {
+            const track = observation.track ?? this.createTrack(observation.face, now);
+            this.vote(track, observation.face, now);
+            seen.add(track);
+        }
+
+        // Drop faces that have been gone longer than the grace period
+        this.tracks = this.tracks.filter(track => seen.has(track) || now - track.lastSeen <= this.options.gracePeriodMs);
+        this.visibleTracks = seen;
+
+        return this.confirmedIdentities(seen);
+    }
+
+    /**
+     * Faces in the latest frame that the window agrees are nobody we know
+     */
+    unknownFaces(): T[] {
+        return this.tracks
+            .filter(track => this.visibleTracks.has(track) && track.decided && track.confirmedId === null)
+            .map(track => track.lastObservation);
+    }
+
+    reset(): void {
+        this.tracks = [];
+        this.visibleTracks = new Set();
+    }
+
+    /**
+     * Pair each observation with the nearest existing track (greedy, closest first)
+     */
+    private associate(observations: T[]): Array<{ face: T; track: Track<T> | null }> {
+        const pairs: Array<{ face: number; track: Track<T>; distance: number }> = [];
+        observations.forEach((face, index) => {
+            for (const track of this.tracks) {
+                const distance = Math.hypot(face.position.x - track.position.x, face.position.y - track.position.y);
+                if (distance <= this.options.maxJump) {
+                    pairs.push({ face: index, track, distance });
+                }
+            }
+        });
+        pairs.sort((a, b) => a.distance - b.distance);
+
+        const assigned = new Map<number, Track<T>>();
+        const usedTracks = new Set<Track<T>>();
+        for (const pair of pairs) {
+            if (assigned.has(pair.face) || usedTracks.has(pair.track)) continue;
+            assigned.set(pair.face, pair.track);
+            usedTracks.add(pair.track);
+        }
+
+        return observations.map((face, index) => ({ face, track: assigned.get(index) ?? null }));
+    }
+
+    private createTrack(face: T, now: number): Track<T> {
+        const track: Track<T> = {
+            id: this.nextTrackId++,
+            votes: [],
+            similarities: new Map(),
+            confirmedId: null,
+            decided: false,
+            lastObservation: face,
+            position: face.position,
+            lastSeen: now,
+        };
+        this.tracks.push(track);
+        return track;
+    }
+
+    private vote(track: Track<T>, face: T, now: number): void {
+        track.position = face.position;
+        track.lastObservation = face;
+        track.lastSeen = now;
+        track.votes.push(face.personId);
+        if (track.votes.length > this.options.windowSize) {
+            track.votes.shift();
+        }
+        if (face.personId !== null) {
+            track.similarities.set(face.personId, face.similarity);
+        }
+
+        // Only switch identity once a candidate (or "unknown") reaches consensus
+        const counts = new Map<number | null, number>();
+        for (const personId of track.votes) {
+            counts.set(personId, (counts.get(personId) ?? 0) + 1);
+        }
+        let leader: { personId: number | null; count: number } | null = null;
+        for (const [personId, count] of counts) {
+            if (!leader || count > leader.count) leader = { personId, count };
+        }
+        if (leader && leader.count >= this.options.consensus) {
+            track.confirmedId = leader.personId;
+            track.decided = true;
+        }
+    }
+
+    /**
+     * Confirmed tracks, with each person assigned to at most one face.
+     * Visible tracks win over held ones, then the track with more votes for that person.
+     */
+    private confirmedIdentities(seen: Set<Track<T>>): TrackedIdentity[] {
+        const byPerson = new Map<number, Track<T>>();
+        const support = (track: Track<T>) => track.votes.filter(id => id === track.confirmedId).length;
+
+        for (const track of this.tracks) {
+            if (track.confirmedId === null) continue;
+            const current = byPerson.get(track.confirmedId);
+            const better = !current
+                || (seen.has(track) && !seen.has(current))
+                || (seen.has(track) === seen.has(current) && support(track) > support(current));
+            if (better) byPerson.set(track.confirmedId, track);
+        }
+
+        return Array.from(byPerson.values(), track => ({
+            trackId: track.id,
+            personId: track.confirmedId!,
+            similarity: track.similarities.get(track.confirmedId!) ?? 0,
+            position: track.position,
+            visible: seen.has(track),
+        }));
+    }
+}
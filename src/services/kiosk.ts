@@ -0,0 +1,99 @@
+import { getSetting, saveSetting } from '../db/database';
+
+export type KioskExitMethod = 'pin' | 'longPress';
+
+/**
+ * Patient kiosk lock: while enabled the device only shows the AR viewer.
+ * Stored in the settings table so a reload or reboot stays locked.
+ */
+export interface KioskSettings {
+    enabled: boolean;
+    exitMethod: KioskExitMethod;
+    pinHash: string; // SHA-256 of the caregiver PIN, '' when none has been set
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+    enabled: false,
+    exitMethod: 'longPress',
+    pinHash: '',
+};
+
+// How long the exit button must be held in long-press mode
+export const KIOSK_LONG_PRESS_MS = 3000;
+
+const SETTINGS_KEY = 'kiosk';
+
+export async function loadKioskSettings(): Promise<KioskSettings> {
+    const stored = await getSetting<Partial<KioskSettings>>(SETTINGS_KEY, {});
+    return { ...DEFAULT_KIOSK_SETTINGS, ...stored };
+}
+
+export async function saveKioskSettings(settings: KioskSettings): Promise<void> {
+    await saveSetting(SETTINGS_KEY, settings);
+}
+
+export async function hashPin(pin: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`kiosk:${pin}`));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyPin(settings: KioskSettings, pin: string): Promise<boolean> {
+    return settings.pinHash !== '' && await hashPin(pin) === settings.pinHash;
+}
+
+/**
+ * Go fullscreen if the browser allows it. Needs a user gesture, so it is retried on the next tap.
+ */
+export async function enterFullscreen(): Promise<void> {
+    if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+    try {
+        await document.documentElement.requestFullscreen({ navigationUI: 'hide' });
+    } catch (error) {
+        console.warn('Fullscreen not available:', error);
+    }
+}
+
+export async function exitFullscreen(): Promise<void> {
+    if (!document.fullscreenElement) return;
+    try {
+        await document.exitFullscreen();
+    } catch (error) {
+        console.warn('Error leaving fullscreen:', error);
+    }
+}
+
+/**
+ * Keeps the screen awake. The browser drops the lock whenever the tab is hidden,
+ * so it is requested again each time the tab becomes visible.
+ */
+export class ScreenWakeLock {
+    private sentinel: WakeLockSentinel | null = null;
+    private active = false;
+
+    private readonly onVisibilityChange = () => {
+        if (this.active && document.visibilityState === 'visible') this.request();
+    };
+
+    async acquire() {
+        if (this.active) return;
+        this.active = true;
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+        await this.request();
+    }
+
+    release() {
+        this.active = false;
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        this.sentinel?.release().catch(error => console.warn('Error releasing wake lock:', error));
+        this.sentinel = null;
+    }
+
+    private async request() {
+        if (!('wakeLock' in navigator) || (this.sentinel && !this.sentinel.released)) return;
+        try {
+            this.sentinel = await navigator.wakeLock.request('screen');
+        } catch (error) {
+            console.warn('Wake lock not available:', error);
+        }
+    }
+}
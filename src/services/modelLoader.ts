@@ -0,0 +1,144 @@
+import * as faceapi from '@vladmandic/face-api';
+
+// Models ship with the app under public/models; override to serve them from elsewhere
+export const MODEL_BASE_URL: string =
+    import.meta.env.VITE_FACE_MODEL_URL || `${import.meta.env.BASE_URL}models`;
+
+export type ModelName = 'tinyFaceDetector' | 'faceLandmark68TinyNet' | 'faceRecognitionNet';
+
+interface ModelFileEntry {
+    path: string;
+    bytes: number;
+    sha256: string;
+}
+
+interface ModelManifest {
+    faceApiVersion: string;
+    models: Record<ModelName, { weightsManifest: string; files: ModelFileEntry[] }>;
+}
+
+/**
+ * Raised when bundled models are missing or do not match the manifest.
+ * `problems` lists every file that failed, so the UI can say exactly what is wrong.
+ */
+export class ModelLoadError extends Error {
+    readonly summary: string;
+    readonly problems: string[];
+
+    constructor(summary: string, problems: string[] = []) {
+        super(problems.length > 0 ? `${summary}: ${problems.join('; ')}` : summary);
+        this.name = 'ModelLoadError';
+        this.summary = summary;
+        this.problems = problems;
+    }
+}
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function fetchManifest(baseUrl: string): Promise<ModelManifest> {
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl}/manifest.json`);
+    } catch (error) {
+        throw new ModelLoadError(`Could not reach model folder ${baseUrl} (${(error as Error).message})`);
+    }
+    if (!response.ok) {
+        throw new ModelLoadError(`Model manifest not found at ${baseUrl}/manifest.json (HTTP ${response.status})`);
+    }
+    try {
+        return await response.json();
+    } catch {
+        throw new ModelLoadError(`Model manifest at ${baseUrl}/manifest.json is not valid JSON`);
+    }
+}
+
+/**
+ * Download every file listed for the given models and check size and hash.
+ * Throws a ModelLoadError naming each missing or corrupt file.
+ */
+async function fetchVerifiedFiles(
+    baseUrl: string,
+    manifest: ModelManifest,
+    names: ModelName[]
+): Promise<Map<string, ArrayBuffer>> {
+    const files = new Map<string, ArrayBuffer>();
+    const problems: string[] = [];
+
+    const entries = names.flatMap((name) => {
+        const model = manifest.models[name];
+        if (!model) {
+            problems.push(`${name} is not listed in manifest.json`);
+            return [];
+        }
+        return model.files;
+    });
+
+    await Promise.all(entries.map(async (entry) => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/${entry.path}`);
+        } catch {
+            problems.push(`${entry.path} could not be downloaded`);
+            return;
+        }
+        if (!response.ok) {
+            problems.push(`${entry.path} is missing (HTTP ${response.status})`);
+            return;
+        }
+
+        const data = await response.arrayBuffer();
+        if (data.byteLength !== entry.bytes) {
+            problems.push(`${entry.path} is ${data.byteLength} bytes, expected ${entry.bytes}`);
+            return;
+        }
+        if (await sha256Hex(data) !== entry.sha256) {
+            problems.push(`${entry.path} is corrupt (hash mismatch)`);
+            return;
+        }
+        files.set(entry.path, data);
+    }));
+
+    if (problems.length > 0) {
+        throw new ModelLoadError('Face models failed verification', problems);
+    }
+    return files;
+}
+
+/**
+ * Build a net's weight map from already verified files instead of letting face-api fetch them again
+ */
+function decodeWeightMap(weightsManifestPath: string, files: Map<string, ArrayBuffer>): faceapi.tf.NamedTensorMap {
+    const groups: Array<{ paths: string[]; weights: faceapi.tf.io.WeightsManifestEntry[] }> =
+        JSON.parse(new TextDecoder().decode(files.get(weightsManifestPath)));
+
+    const specs = groups.flatMap(group => group.weights);
+    const shards = groups.flatMap(group => group.paths).map(path => new Uint8Array(files.get(path)!));
+
+    const buffer = new Uint8Array(shards.reduce((total, shard) => total + shard.length, 0));
+    let offset = 0;
+    for (const shard of shards) {
+        buffer.set(shard, offset);
+        offset += shard.length;
+    }
+
+    return faceapi.tf.io.decodeWeights(buffer.buffer, specs);
+}
+
+/**
+ * Verify and load the named face-api nets from the bundled model folder
+ */
+export async function loadVerifiedModels(names: ModelName[], baseUrl = MODEL_BASE_URL): Promise<void> {
+    const manifest = await fetchManifest(baseUrl);
+    const files = await fetchVerifiedFiles(baseUrl, manifest, names);
+
+    for (const name of names) {
+        try {
+            faceapi.nets[name].loadFromWeightMap(decodeWeightMap(manifest.models[name].weightsManifest, files));
+        } catch (error) {
+            throw new ModelLoadError(`${name} weights could not be decoded`, [(error as Error).message]);
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import { getSetting, saveSetting } from '../db/database';
+
+export interface ScheduleItem {
+    id: string;
+    time: string; // 'HH:MM', local time
+    label: string; // e.g. "Lunch with Sarah"
+    days: number[]; // 0 = Sunday, as Date.getDay(); empty = every day
+}
+
+/**
+ * Reality-orientation card shown in the AR view while nobody is recognized.
+ * Edited by caregivers in the portal.
+ */
+export interface OrientationSettings {
+    enabled: boolean;
+    location: string; // e.g. "at home in Leeds"
+    note: string; // Optional extra line, e.g. "Sarah visits on Sundays"
+    schedule: ScheduleItem[];
+}
+
+export const DEFAULT_ORIENTATION_SETTINGS: OrientationSettings = {
+    enabled: true,
+    location: '',
+    note: '',
+    schedule: [],
+};
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SETTINGS_KEY = 'orientation';
+
+export async function loadOrientationSettings(): Promise<OrientationSettings> {
+    const stored = await getSetting<Partial<OrientationSettings>>(SETTINGS_KEY, {});
+    return { ...DEFAULT_ORIENTATION_SETTINGS, ...stored };
+}
+
+export async function saveOrientationSettings(settings: OrientationSettings): Promise<void> {
+    await saveSetting(SETTINGS_KEY, settings);
+}
+
+export type PartOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export function partOfDay(date: Date): PartOfDay {
+    const hour = date.getHours();
+    if (hour >= 5 && hour < 12) return 'morning';
+    if (hour >= 12 && hour < 17) return 'afternoon';
+    if (hour >= 17 && hour < 21) return 'evening';
+    return 'night';
+}
+
+/**
+ * The next schedule item at or after `now`, looking up to a week ahead
+ */
+export function nextScheduledItem(
+    schedule: ScheduleItem[],
+    now = new Date()
+): { item: ScheduleItem; at: Date } | null {
+    let next: { item: ScheduleItem; at: Date } | null = null;
+
+    for (const item of schedule) {
+        const [hours, minutes] = item.time.split(':').map(Number);
+        if (Number.isNaN(hours) || Number.isNaN(minutes)) continue;
+
+        for (let offset = 0; offset <= 7; offset++) {
+            const at = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, hours, minutes);
+            if (at < now || (item.days.length > 0 && !item.days.includes(at.getDay()))) continue;
+            if (!next || at < next.at) next = { item, at };
+            break;
+        }
+    }
+    return next;
+}
+
+/**
+ * "at 2:30 pm", "tomorrow at 9:00 am" or "on Friday at 10:00 am"
+ */
+export function describeWhen(at: Date, now = new Date()): string {
+    const time = at.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfDay = new Date(at.getFullYear(), at.getMonth(), at.getDate());
+    const days = Math.round((startOfDay.getTime() - startOfToday.getTime()) / (24 * 60 * 60 * 1000));
+    if (days === 0) return `at ${time}`;
+    if (days === 1) return `tomorrow at ${time}`;
+    return `on ${WEEKDAY_NAMES[at.getDay()]} at ${time}`;
+}
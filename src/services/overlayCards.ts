@@ -0,0 +1,129 @@
+import type { Conversation, Person } from '../db/database';
+import { birthdayAge, isBirthday, profileFacts } from './personProfile';
+
+// 'birthday' is not in the caregiver's order: on the day it always comes first
+export type OverlayCardKind = 'recentConversations' | 'pinnedFact' | 'profileFacts' | 'conversationStarter' | 'birthday';
+
+/**
+ * Which cards the AR label cycles through for a recognized person, in order, and how long each one shows
+ */
+export interface OverlayCardSettings {
+    order: Array<{ kind: OverlayCardKind; enabled: boolean }>;
+    secondsPerCard: number;
+    conversationCount: number; // How many recent summaries to include
+}
+
+export const DEFAULT_OVERLAY_CARD_SETTINGS: OverlayCardSettings = {
+    order: [
+        { kind: 'recentConversations', enabled: true },
+        { kind: 'pinnedFact', enabled: true },
+        { kind: 'profileFacts', enabled: true },
+        { kind: 'conversationStarter', enabled: true },
+    ],
+    secondsPerCard: 8,
+    conversationCount: 3,
+};
+
+export const OVERLAY_CARD_NAMES: Record<OverlayCardKind, string> = {
+    recentConversations: 'Recent conversations',
+    pinnedFact: 'Pinned fact',
+    profileFacts: 'Profile facts',
+    conversationStarter: 'Conversation starter',
+    birthday: 'Birthday',
+};
+
+/**
+ * Saved settings with any card kinds added since, appended in their default state
+ */
+export function withAllCardKinds(settings: OverlayCardSettings): OverlayCardSettings {
+    const missing = DEFAULT_OVERLAY_CARD_SETTINGS.order.filter(
+        card => !settings.order.some(saved => saved.kind === card.kind)
+    );
+    return missing.length > 0 ? { ...settings, order: [...settings.order, ...missing] } : settings;
+}
+
+export interface OverlayCard {
+    kind: OverlayCardKind;
+    title: string; // e.g. "3 days ago" or "Try asking"
+    text: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * "today", "yesterday", "3 days ago", "2 weeks ago", "5 months ago"
+ */
+export function relativeDate(date: Date, now = new Date()): string {
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const days = Math.round((startOfToday.getTime() - startOfDay.getTime()) / DAY_MS);
+
+    if (days <= 0) return 'today';
+    if (days === 1) return 'yesterday';
+    if (days < 14) return `${days} days ago`;
+    if (days < 60) return `${Math.floor(days / 7)} weeks ago`;
+    if (days < 730) return `${Math.floor(days / 30)} months ago`;
+    return `${Math.floor(days / 365)} years ago`;
+}
+
+/**
+ * Something to ask, picked up from the last conversation when there is one
+ */
+export function conversationStarter(person: Person, latest?: Conversation): string {
+    const topic = latest?.summary.match(/^talked about (.+?)\.?$/i)?.[1];
+    if (topic) return `Ask ${person.name} more about ${topic}`;
+    if (latest) return `Ask ${person.name} about last time: "${latest.summary}"`;
+    return `Ask ${person.name} what they have been up to`;
+}
+
+/**
+ * The cards for one person, in the caregiver's order. Kinds with nothing to show are left out.
+ */
+export function buildOverlayCards(
+    person: Person,
+    recentConversations: Conversation[],
+    settings: OverlayCardSettings,
+    now = new Date()
+): OverlayCard[] {
+    const cards: OverlayCard[] = [];
+
+    if (isBirthday(person, now)) {
+        const age = birthdayAge(person, now);
+        cards.push({
+            kind: 'birthday',
+            title: '🎂 Birthday today',
+            text: age && age > 0 ? `${person.name} turns ${age} today` : `It is ${person.name}'s birthday today`,
+        });
+    }
+
+    for (const { kind, enabled } of settings.order) {
+        if (!enabled) continue;
+        switch (kind) {
+            case 'recentConversations':
+                for (const conversation of recentConversations.slice(0, settings.conversationCount)) {
+                    cards.push({ kind, title: relativeDate(conversation.date, now), text: conversation.summary });
+                }
+                break;
+            case 'pinnedFact':
+                if (person.pinnedFact?.trim()) {
+                    cards.push({ kind, title: 'Remember', text: person.pinnedFact.trim() });
+                }
+                break;
+            case 'profileFacts':
+                for (const fact of profileFacts(person)) cards.push({ kind, ...fact });
+                break;
+            case 'conversationStarter':
+                cards.push({ kind, title: 'Try asking', text: conversationStarter(person, recentConversations[0]) });
+                break;
+        }
+    }
+    return cards;
+}
+
+/**
+ * Index of the card on show, counting from when the person appeared
+ */
+export function currentCardIndex(cardCount: number, shownSinceMs: number, secondsPerCard: number): number {
+    if (cardCount === 0) return 0;
+    return Math.floor(Math.max(0, shownSinceMs) / (secondsPerCard * 1000)) % cardCount;
+}
@@ -0,0 +1,77 @@
+export interface OverlayPoint {
+    x: number; // percentage 0-100
+    y: number; // percentage 0-100
+}
+
+// Approximate footprint of one person label, in screen percentages
+const LABEL_WIDTH = 24;
+const LABEL_HEIGHT = 18;
+const MAX_X = 85;
+const MAX_Y = 85;
+
+/**
+ * Turn a face position (right edge / top, in percentages) into where its label should sit
+ */
+export function labelAnchorForFace(face: { x: number; y: number }): OverlayPoint {
+    return {
+        x: Math.min(face.x + 8, MAX_X),
+        y: Math.max(face.y - 5, 10)
+    };
+}
+
+/**
+ * The same face once the video is flipped horizontally (x stays the right edge)
+ */
+export function mirrorFacePosition<T extends { x: number; width: number }>(face: T): T {
+    return { ...face, x: 100 - face.x + face.width };
+}
+
+const collides = (point: OverlayPoint, placed: OverlayPoint[]) => placed.some(other =>
+    Math.abs(point.x - other.x) < LABEL_WIDTH &&
+    Math.abs(point.y - other.y) < LABEL_HEIGHT
+);
+
+/**
+ * Nudge labels apart so none of them overlap. Labels are placed top to bottom and
+ * any label colliding with one already placed is pushed below it. A label with no
+ * free spot left on screen is left out of the result, so callers should hide it.
+ */
+export function resolveLabelOverlaps<K>(labels: Map<K, OverlayPoint>): Map<K, OverlayPoint> {
+    const ordered = Array.from(labels).sort(([, a], [, b]) => a.y - b.y);
+    const placed: OverlayPoint[] = [];
+    const resolved = new Map<K, OverlayPoint>();
+
+    for (const [key, point] of ordered) {
+        const next = { ...point };
+        let moved = true;
+
+        while (moved) {
+            moved = false;
+            for (const other of placed) {
+                const overlaps =
+                    Math.abs(next.x - other.x) < LABEL_WIDTH &&
+                    Math.abs(next.y - other.y) < LABEL_HEIGHT;
+                if (overlaps) {
+                    next.y = other.y + LABEL_HEIGHT;
+                    moved = true;
+                }
+            }
+        }
+
+        // Running off the bottom: look for a free spot to either side instead
+        if (next.y > MAX_Y) {
+            const sideways = [-1, 1, -2, 2, -3, 3]
+                .map(step => ({ x: point.x + step * LABEL_WIDTH, y: point.y }))
+                .find(candidate => candidate.x >= 0 && candidate.x <= MAX_X && !collides(candidate, placed));
+            // Nowhere free: drop the lowest label rather than draw it over another
+            if (!sideways) continue;
+            next.x = sideways.x;
+            next.y = sideways.y;
+        }
+
+        placed.push(next);
+        resolved.set(key, next);
+    }
+
+    return resolved;
+}
@@ -0,0 +1,81 @@
+import type { Person, ProfileField } from '../db/database';
+
+export const PROFILE_FIELD_NAMES: Record<ProfileField, string> = {
+    nickname: 'Nickname',
+    birthday: 'Birthday',
+    location: 'Where they live',
+    interests: 'Interests',
+    sharedMemories: 'Shared memories',
+    keyFacts: 'Key facts',
+};
+
+// The lists are edited as one item per line
+export function parseList(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line !== '');
+}
+
+function parseBirthday(birthday?: string): { year: number; month: number; day: number } | null {
+    const match = birthday?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Whether today is their birthday. February 29th birthdays are marked on the 28th in other years.
+ */
+export function isBirthday(person: Person, now = new Date()): boolean {
+    const birthday = parseBirthday(person.birthday);
+    if (!birthday || now.getMonth() + 1 !== birthday.month) return false;
+    if (now.getDate() === birthday.day) return true;
+
+    const isLeapYear = new Date(now.getFullYear(), 1, 29).getMonth() === 1;
+    return birthday.month === 2 && birthday.day === 29 && !isLeapYear && now.getDate() === 28;
+}
+
+/**
+ * Age reached on this year's birthday
+ */
+export function birthdayAge(person: Person, now = new Date()): number | null {
+    const birthday = parseBirthday(person.birthday);
+    return birthday ? now.getFullYear() - birthday.year : null;
+}
+
+/**
+ * "3 March", without the year
+ */
+export function formatBirthday(birthday: string): string {
+    const parsed = parseBirthday(birthday);
+    if (!parsed) return birthday;
+    return new Date(2000, parsed.month - 1, parsed.day).toLocaleDateString([], { day: 'numeric', month: 'long' });
+}
+
+/**
+ * The profile facts chosen for AR as title and text pairs, one per list item
+ */
+export function profileFacts(person: Person): Array<{ title: string; text: string }> {
+    const facts: Array<{ title: string; text: string }> = [];
+
+    for (const field of person.arProfileFields) {
+        switch (field) {
+            case 'nickname':
+                if (person.nickname) facts.push({ title: 'You call them', text: person.nickname });
+                break;
+            case 'birthday':
+                if (person.birthday) facts.push({ title: 'Birthday', text: formatBirthday(person.birthday) });
+                break;
+            case 'location':
+                if (person.location) facts.push({ title: 'Lives in', text: person.location });
+                break;
+            case 'interests':
+                if (person.interests.length > 0) facts.push({ title: 'Loves', text: person.interests.join(', ') });
+                break;
+            case 'sharedMemories':
+                for (const memory of person.sharedMemories) facts.push({ title: 'Remember', text: memory });
+                break;
+            case 'keyFacts':
+                for (const fact of person.keyFacts) facts.push({ title: 'Good to know', text: fact });
+                break;
+        }
+    }
+    return facts;
+}
@@ -0,0 +1,237 @@
+import * as faceapi from '@vladmandic/face-api';
+import { loadFaceDetectionModels } from './faceDetection';
+
+export type QualityLevel = 'pass' | 'warn' | 'fail';
+
+export interface QualityCheck {
+    id: 'size' | 'confidence' | 'pose' | 'blur' | 'brightness' | 'faces';
+    label: string;
+    value: string;
+    level: QualityLevel;
+    advice?: string;
+}
+
+export interface AnalyzedFace {
+    box: { x: number; y: number; width: number; height: number }; // percentages of the image
+    thumbnailUrl: string;
+    descriptor: number[];
+    checks: QualityCheck[];
+    verdict: QualityLevel;
+}
+
+export interface HeadPose {
+    yaw: number; // degrees, left/right turn
+    pitch: number; // degrees, up/down tilt
+    roll: number; // degrees, sideways tilt
+}
+
+const LEVEL_RANK: Record<QualityLevel, number> = { pass: 0, warn: 1, fail: 2 };
+
+export function worstLevel(levels: QualityLevel[]): QualityLevel {
+    return levels.reduce<QualityLevel>((worst, level) => LEVEL_RANK[level] > LEVEL_RANK[worst] ? level : worst, 'pass');
+}
+
+/**
+ * Rough head pose from the 68-point landmarks. Good enough to flag turned or tilted faces.
+ */
+export function estimateHeadPose(points: Array<{ x: number; y: number }>): HeadPose {
+    const mean = (from: number, to: number) => {
+        const slice = points.slice(from, to + 1);
+        return {
+            x: slice.reduce((sum, p) => sum + p.x, 0) / slice.length,
+            y: slice.reduce((sum, p) => sum + p.y, 0) / slice.length,
+        };
+    };
+    const leftEye = mean(36, 41);
+    const rightEye = mean(42, 47);
+    const mouth = mean(48, 67);
+    const nose = points[30];
+    const jawLeft = points[0];
+    const jawRight = points[16];
+
+    const roll = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x) * 180 / Math.PI;
+
+    // Nose tip drifts towards one jaw edge as the head turns
+    const toLeft = Math.hypot(nose.x - jawLeft.x, nose.y - jawLeft.y);
+    const toRight = Math.hypot(nose.x - jawRight.x, nose.y - jawRight.y);
+    const yaw = ((toLeft - toRight) / (toLeft + toRight)) * 90;
+
+    // Nose tip sits a little over halfway from the eyes to the mouth when looking straight
+    const eyeY = (leftEye.y + rightEye.y) / 2;
+    const noseRatio = (nose.y - eyeY) / Math.max(1, mouth.y - eyeY);
+    const pitch = (noseRatio - 0.6) * 150;
+
+    return { yaw, pitch, roll };
+}
+
+/**
+ * Sharpness (variance of the Laplacian) and mean brightness of a grayscale image
+ */
+export function measureSharpnessAndBrightness(image: ImageData): { blurVariance: number; brightness: number } {
+    const { width, height, data } = image;
+    const gray = new Float32Array(width * height);
+    let total = 0;
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+        total += gray[i];
+    }
+
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+            sum += laplacian;
+            sumSquares += laplacian * laplacian;
+            count++;
+        }
+    }
+    const meanLaplacian = count > 0 ? sum / count : 0;
+
+    return {
+        blurVariance: count > 0 ? sumSquares / count - meanLaplacian * meanLaplacian : 0,
+        brightness: gray.length > 0 ? total / gray.length : 0,
+    };
+}
+
+function cropFace(image: HTMLImageElement, box: faceapi.Box, maxSize: number): HTMLCanvasElement {
+    const scale = Math.min(1, maxSize / Math.max(box.width, box.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(box.width * scale));
+    canvas.height = Math.max(1, Math.round(box.height * scale));
+    canvas.getContext('2d', { willReadFrequently: true })!
+        .drawImage(image, box.x, box.y, box.width, box.height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+function gradeFace(
+    faceWidthRatio: number,
+    score: number,
+    pose: HeadPose,
+    blurVariance: number,
+    brightness: number
+): QualityCheck[] {
+    const checks: QualityCheck[] = [];
+
+    checks.push({
+        id: 'size',
+        label: 'Face size',
+        value: `${Math.round(faceWidthRatio * 100)}% of photo width`,
+        ...(faceWidthRatio < 0.1
+            ? { level: 'fail', advice: 'The face is tiny. Use a closer photo or crop around the face.' }
+            : faceWidthRatio < 0.2
+                ? { level: 'warn', advice: 'The face is quite small. A closer photo will recognize better.' }
+                : { level: 'pass' }),
+    });
+
+    checks.push({
+        id: 'confidence',
+        label: 'Detection confidence',
+        value: `${Math.round(score * 100)}%`,
+        ...(score < 0.5
+            ? { level: 'fail', advice: 'The face is hard to make out. Try a clearer, front-facing photo.' }
+            : score < 0.7
+                ? { level: 'warn', advice: 'The face was only just detected. A clearer photo would help.' }
+                : { level: 'pass' }),
+    });
+
+    const turn = Math.max(Math.abs(pose.yaw), Math.abs(pose.pitch));
+    checks.push({
+        id: 'pose',
+        label: 'Head pose',
+        value: `turn ${Math.round(pose.yaw)}°, tilt ${Math.round(pose.pitch)}°, roll ${Math.round(pose.roll)}°`,
+        ...(turn > 35
+            ? { level: 'fail', advice: 'The head is turned too far. Use a photo looking at the camera.' }
+            : turn > 20 || Math.abs(pose.roll) > 25
+                ? { level: 'warn', advice: 'The head is turned or tilted. Add a straight-on photo later.' }
+                : { level: 'pass' }),
+    });
+
+    checks.push({
+        id: 'blur',
+        label: 'Sharpness',
+        value: `${Math.round(blurVariance)}`,
+        ...(blurVariance < 30
+            ? { level: 'fail', advice: 'The photo is blurry. Hold the camera still or pick a sharper photo.' }
+            : blurVariance < 80
+                ? { level: 'warn', advice: 'The photo is a little soft. A sharper one would recognize better.' }
+                : { level: 'pass' }),
+    });
+
+    checks.push({
+        id: 'brightness',
+        label: 'Brightness',
+        value: `${Math.round((brightness / 255) * 100)}%`,
+        ...(brightness < 40 || brightness > 225
+            ? { level: 'fail', advice: brightness < 40 ? 'The face is too dark. Take the photo in better light.' : 'The face is washed out. Avoid direct flash or sunlight.' }
+            : brightness < 70 || brightness > 200
+                ? { level: 'warn', advice: brightness < 70 ? 'The face is a bit dark.' : 'The face is a bit bright.' }
+                : { level: 'pass' }),
+    });
+
+    return checks;
+}
+
+/**
+ * Find every face in an enrollment photo and grade each one for recognition quality
+ */
+export async function analyzePhoto(image: HTMLImageElement): Promise<AnalyzedFace[]> {
+    await loadFaceDetectionModels();
+
+    const detections = await faceapi
+        .detectAllFaces(image, new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: 0.3 }))
+        .withFaceLandmarks(true)
+        .withFaceDescriptors();
+
+    const imageWidth = image.naturalWidth || image.width;
+    const imageHeight = image.naturalHeight || image.height;
+
+    const faces = detections.map((detection) => {
+        const box = detection.detection.box;
+        const crop = cropFace(image, box, 160);
+        const { blurVariance, brightness } = measureSharpnessAndBrightness(
+            crop.getContext('2d')!.getImageData(0, 0, crop.width, crop.height)
+        );
+        const checks = gradeFace(
+            box.width / imageWidth,
+            detection.detection.score,
+            estimateHeadPose(detection.landmarks.positions),
+            blurVariance,
+            brightness
+        );
+
+        return {
+            box: {
+                x: (box.x / imageWidth) * 100,
+                y: (box.y / imageHeight) * 100,
+                width: (box.width / imageWidth) * 100,
+                height: (box.height / imageHeight) * 100,
+            },
+            thumbnailUrl: crop.toDataURL('image/jpeg', 0.8),
+            descriptor: Array.from(detection.descriptor),
+            checks,
+            verdict: worstLevel(checks.map(check => check.level)),
+        };
+    });
+
+    // Largest face first: in most photos that is the person being enrolled
+    faces.sort((a, b) => b.box.width - a.box.width);
+
+    if (faces.length > 1) {
+        const groupCheck: QualityCheck = {
+            id: 'faces',
+            label: 'Faces in photo',
+            value: `${faces.length}`,
+            level: 'warn',
+            advice: 'This is a group photo. Make sure the right face is selected, or use a photo of just this person.',
+        };
+        for (const face of faces) {
+            face.checks.push(groupCheck);
+            face.verdict = worstLevel([face.verdict, 'warn']);
+        }
+    }
+
+    return faces;
+}
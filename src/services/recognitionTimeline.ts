@@ -0,0 +1,82 @@
+import type { TrackedIdentity } from './identityTracker';
+
+// Sightings further apart than this (in video seconds) start a new segment
+const SEGMENT_GAP_SECONDS = 1.5;
+
+export interface TimelineSegment {
+    personId: number;
+    start: number; // seconds into the video
+    end: number;
+    peakSimilarity: number;
+    averageSimilarity: number;
+}
+
+/**
+ * Who was recognized at which point of a recorded video.
+ * Frames are keyed by video time, so scrubbing back and replaying overwrites instead of duplicating.
+ */
+export class RecognitionTimeline {
+    private frames = new Map<number, Array<{ personId: number; similarity: number }>>();
+
+    record(videoTime: number, identities: TrackedIdentity[]) {
+        const key = Math.round(videoTime * 10) / 10;
+        this.frames.set(key, identities.map(({ personId, similarity }) => ({ personId, similarity })));
+    }
+
+    get isEmpty(): boolean {
+        return this.frames.size === 0;
+    }
+
+    segments(): TimelineSegment[] {
+        const times = [...this.frames.keys()].sort((a, b) => a - b);
+        const open = new Map<number, { segment: TimelineSegment; similarities: number[] }>();
+        const closed: Array<{ segment: TimelineSegment; similarities: number[] }> = [];
+
+        for (const time of times) {
+            for (const { personId, similarity } of this.frames.get(time)!) {
+                const current = open.get(personId);
+                if (current && time - current.segment.end <= SEGMENT_GAP_SECONDS) {
+                    current.segment.end = time;
+                    current.similarities.push(similarity);
+                    continue;
+                }
+                if (current) closed.push(current);
+                open.set(personId, {
+                    segment: { personId, start: time, end: time, peakSimilarity: 0, averageSimilarity: 0 },
+                    similarities: [similarity],
+                });
+            }
+        }
+        closed.push(...open.values());
+
+        return closed
+            .map(({ segment, similarities }) => ({
+                ...segment,
+                peakSimilarity: Math.max(...similarities),
+                averageSimilarity: similarities.reduce((sum, s) => sum + s, 0) / similarities.length,
+            }))
+            .sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * One CSV row per continuous sighting, for spreadsheets and bug reports
+     */
+    toCsv(nameFor: (personId: number) => string): string {
+        const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        const rows = this.segments().map(segment => [
+            escape(nameFor(segment.personId)),
+            segment.personId,
+            segment.start.toFixed(1),
+            segment.end.toFixed(1),
+            (segment.end - segment.start).toFixed(1),
+            Math.round(segment.peakSimilarity * 100),
+            Math.round(segment.averageSimilarity * 100),
+        ].join(','));
+
+        return ['person,person_id,start_s,end_s,duration_s,peak_confidence_pct,avg_confidence_pct', ...rows].join('\n');
+    }
+
+    reset() {
+        this.frames.clear();
+    }
+}
@@ -0,0 +1,260 @@
+import {
+    PATIENT_ID,
+    type Person,
+    type RelationGender,
+    type RelationModifier,
+    type RelationRole,
+    type Relationship
+} from '../db/database';
+
+interface RoleInfo {
+    words: Record<RelationGender, string>;
+    generation: number | null; // Generations above the relative; null for roles outside the family
+    inverse: RelationRole | null; // What the relative is to the person, when that follows
+    modifiers: RelationModifier[]; // Allowed besides 'none'
+}
+
+const words = (female: string, male: string, neutral: string) => ({ female, male, neutral });
+const sameWord = (word: string) => words(word, word, word);
+
+export const RELATION_ROLES: Record<RelationRole, RoleInfo> = {
+    parent: { words: words('mother', 'father', 'parent'), generation: 1, inverse: 'child', modifiers: ['step', 'inLaw'] },
+    child: { words: words('daughter', 'son', 'child'), generation: -1, inverse: 'parent', modifiers: ['step', 'inLaw'] },
+    sibling: { words: words('sister', 'brother', 'sibling'), generation: 0, inverse: 'sibling', modifiers: ['step', 'inLaw', 'half'] },
+    spouse: { words: words('wife', 'husband', 'spouse'), generation: 0, inverse: 'spouse', modifiers: [] },
+    partner: { words: sameWord('partner'), generation: 0, inverse: 'partner', modifiers: [] },
+    grandparent: {
+        words: words('grandmother', 'grandfather', 'grandparent'), generation: 2, inverse: 'grandchild', modifiers: ['step', 'inLaw']
+    },
+    grandchild: {
+        words: words('granddaughter', 'grandson', 'grandchild'), generation: -2, inverse: 'grandparent', modifiers: ['step', 'inLaw']
+    },
+    auntUncle: { words: words('aunt', 'uncle', 'aunt or uncle'), generation: 1, inverse: 'nieceNephew', modifiers: [] },
+    nieceNephew: { words: words('niece', 'nephew', 'niece or nephew'), generation: -1, inverse: 'auntUncle', modifiers: [] },
+    cousin: { words: sameWord('cousin'), generation: 0, inverse: 'cousin', modifiers: [] },
+    friend: { words: sameWord('friend'), generation: null, inverse: 'friend', modifiers: [] },
+    neighbour: { words: sameWord('neighbour'), generation: null, inverse: 'neighbour', modifiers: [] },
+    nurse: { words: sameWord('nurse'), generation: null, inverse: null, modifiers: [] },
+    carer: { words: sameWord('carer'), generation: null, inverse: null, modifiers: [] },
+    doctor: { words: sameWord('doctor'), generation: null, inverse: null, modifiers: [] },
+    other: { words: sameWord('contact'), generation: null, inverse: null, modifiers: [] },
+};
+
+export const MODIFIER_NAMES: Record<RelationModifier, string> = {
+    none: 'No',
+    step: 'Step',
+    inLaw: 'In-law',
+    half: 'Half',
+};
+
+export function isFamilyRole(role: RelationRole): boolean {
+    return RELATION_ROLES[role].generation !== null;
+}
+
+type RelationKind = Pick<Relationship, 'role' | 'gender' | 'modifier' | 'label'>;
+
+/**
+ * "daughter", "stepfather", "sister-in-law", "half-brother", "nurse"
+ */
+export function relationName(kind: RelationKind): string {
+    if (kind.role === 'other' && kind.label?.trim()) return kind.label.trim();
+
+    const word = RELATION_ROLES[kind.role].words[kind.gender];
+    switch (kind.modifier) {
+        case 'step': return `step${word}`;
+        case 'inLaw': return `${word}-in-law`;
+        case 'half': return `half-${word}`;
+        default: return word;
+    }
+}
+
+// A relationship seen from one person's side
+export interface RelationLink extends RelationKind {
+    relativeId: number;
+    inferred: boolean; // Worked out through someone in between rather than entered
+}
+
+// The word for what they are to others, e.g. 'female' for someone recorded as a daughter
+function genderOf(personId: number, relationships: Relationship[]): RelationGender {
+    return relationships.find(r => r.personId === personId && r.gender !== 'neutral')?.gender ?? 'neutral';
+}
+
+/**
+ * What a person is to everyone they are linked with, including relationships entered from the other side
+ */
+export function linksFrom(personId: number, relationships: Relationship[]): RelationLink[] {
+    const links: RelationLink[] = relationships
+        .filter(r => r.personId === personId)
+        .map(r => ({ relativeId: r.relativeId, role: r.role, gender: r.gender, modifier: r.modifier, label: r.label, inferred: false }));
+
+    for (const r of relationships) {
+        const inverse = RELATION_ROLES[r.role].inverse;
+        if (r.relativeId !== personId || !inverse || links.some(link => link.relativeId === r.personId)) continue;
+        // Step, in-law and half relations read the same both ways: stepmother and stepdaughter
+        links.push({
+            relativeId: r.personId,
+            role: inverse,
+            gender: genderOf(personId, relationships),
+            modifier: r.modifier,
+            inferred: false
+        });
+    }
+    return links;
+}
+
+// "X is Y's <first>, Y is your <second>" gives what X is to the patient
+const COMPOSED_ROLES: Partial<Record<`${RelationRole}:${RelationRole}`, { role: RelationRole; modifier: RelationModifier }>> = {
+    'child:child': { role: 'grandchild', modifier: 'none' },
+    'child:parent': { role: 'sibling', modifier: 'none' },
+    'child:sibling': { role: 'nieceNephew', modifier: 'none' },
+    'child:spouse': { role: 'child', modifier: 'step' },
+    'child:partner': { role: 'child', modifier: 'step' },
+    'child:auntUncle': { role: 'cousin', modifier: 'none' },
+    'parent:parent': { role: 'grandparent', modifier: 'none' },
+    'parent:spouse': { role: 'parent', modifier: 'inLaw' },
+    'sibling:parent': { role: 'auntUncle', modifier: 'none' },
+    'sibling:child': { role: 'child', modifier: 'none' },
+    'sibling:grandchild': { role: 'grandchild', modifier: 'none' },
+    'sibling:spouse': { role: 'sibling', modifier: 'inLaw' },
+    'spouse:child': { role: 'child', modifier: 'inLaw' },
+    'spouse:grandchild': { role: 'grandchild', modifier: 'inLaw' },
+    'spouse:sibling': { role: 'sibling', modifier: 'inLaw' },
+    'spouse:parent': { role: 'parent', modifier: 'step' },
+};
+
+/**
+ * What a person is to the patient: as entered, or worked out through one relative in between,
+ * e.g. the daughter of your daughter is your granddaughter
+ */
+export function patientLink(personId: number, relationships: Relationship[]): RelationLink | null {
+    const links = linksFrom(personId, relationships);
+    const direct = links.find(link => link.relativeId === PATIENT_ID);
+    if (direct) return direct;
+
+    for (const link of links) {
+        if (link.relativeId === PATIENT_ID || link.modifier !== 'none') continue;
+        const via = linksFrom(link.relativeId, relationships)
+            .find(l => l.relativeId === PATIENT_ID && l.modifier === 'none');
+        const composed = via && COMPOSED_ROLES[`${link.role}:${via.role}`];
+        if (composed) return { relativeId: PATIENT_ID, ...composed, gender: link.gender, inferred: true };
+    }
+    return null;
+}
+
+/**
+ * "Sarah's daughter, your granddaughter" for the AR label. Empty when nothing is recorded.
+ */
+export function relationPhrase(personId: number, people: Person[], relationships: Relationship[]): string {
+    // Name the relative who connects them to the patient, when there is one
+    const family = linksFrom(personId, relationships)
+        .filter(link => link.relativeId !== PATIENT_ID && isFamilyRole(link.role));
+    const via = family.find(link => patientLink(link.relativeId, relationships)) ?? family[0];
+    const relative = via && people.find(p => p.id === via.relativeId);
+    const toPatient = patientLink(personId, relationships);
+
+    const parts: string[] = [];
+    if (via && relative) parts.push(`${relative.name}'s ${relationName(via)}`);
+    if (toPatient) parts.push(`your ${relationName(toPatient)}`);
+    return parts.join(', ');
+}
+
+/**
+ * Generation of everyone connected to the patient through family: 1 for parents, -1 for children.
+ * Walks outwards from the patient, so the map is in order of closeness.
+ */
+export function familyGenerations(relationships: Relationship[]): Map<number, number> {
+    const generations = new Map([[PATIENT_ID, 0]]);
+    const queue = [PATIENT_ID];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        const generation = generations.get(id)!;
+        for (const r of relationships) {
+            const above = RELATION_ROLES[r.role].generation;
+            if (above === null) continue;
+            if (r.relativeId === id && !generations.has(r.personId)) {
+                generations.set(r.personId, generation + above);
+                queue.push(r.personId);
+            } else if (r.personId === id && !generations.has(r.relativeId)) {
+                generations.set(r.relativeId, generation - above);
+                queue.push(r.relativeId);
+            }
+        }
+    }
+    return generations;
+}
+
+export interface TreeNode {
+    id: number; // Person id, or PATIENT_ID
+    x: number;
+    y: number;
+}
+
+export interface TreeEdge {
+    from: number; // The parent, for 'parent' edges
+    to: number;
+    kind: 'parent' | 'partner' | 'sibling';
+    modifier: RelationModifier;
+}
+
+export const TREE_NODE_SPACING = 150;
+export const TREE_ROW_HEIGHT = 190;
+
+/**
+ * Family tree positions: one row per generation, oldest at the top, partners side by side.
+ * Only parent, partner and sibling links are drawn; the rest show in the labels.
+ */
+export function layoutFamilyTree(relationships: Relationship[]): {
+    nodes: TreeNode[];
+    edges: TreeEdge[];
+    width: number;
+    height: number;
+} {
+    const generations = familyGenerations(relationships);
+    const isPartner = (a: number, b: number) => relationships.some(r =>
+        (r.role === 'spouse' || r.role === 'partner') &&
+        ((r.personId === a && r.relativeId === b) || (r.personId === b && r.relativeId === a))
+    );
+
+    const rows = new Map<number, number[]>();
+    for (const [id, generation] of generations) {
+        const row = rows.get(generation) ?? [];
+        if (!row.includes(id)) {
+            row.push(id);
+            // Bring a partner in right after, wherever they were reached
+            for (const [other, otherGeneration] of generations) {
+                if (otherGeneration === generation && !row.includes(other) && isPartner(id, other)) row.push(other);
+            }
+        }
+        rows.set(generation, row);
+    }
+
+    const ordered = [...rows.entries()].sort(([a], [b]) => b - a);
+    const widest = Math.max(...ordered.map(([, row]) => row.length));
+    const width = widest * TREE_NODE_SPACING;
+    const nodes = ordered.flatMap(([, row], rowIndex) => row.map((id, i) => ({
+        id,
+        x: (width - row.length * TREE_NODE_SPACING) / 2 + (i + 0.5) * TREE_NODE_SPACING,
+        y: (rowIndex + 0.5) * TREE_ROW_HEIGHT,
+    })));
+
+    const edges: TreeEdge[] = [];
+    const drawn = new Set<string>();
+    for (const r of relationships) {
+        if (!generations.has(r.personId) || !generations.has(r.relativeId)) continue;
+        const key = [r.personId, r.relativeId].sort((a, b) => a - b).join('-');
+        if (drawn.has(key)) continue;
+
+        if (r.role === 'parent' || r.role === 'child') {
+            const [from, to] = r.role === 'parent' ? [r.personId, r.relativeId] : [r.relativeId, r.personId];
+            edges.push({ from, to, kind: 'parent', modifier: r.modifier });
+        } else if (r.role === 'spouse' || r.role === 'partner' || r.role === 'sibling') {
+            edges.push({ from: r.personId, to: r.relativeId, kind: r.role === 'sibling' ? 'sibling' : 'partner', modifier: r.modifier });
+        } else {
+            continue;
+        }
+        drawn.add(key);
+    }
+
+    return { nodes, edges, width, height: ordered.length * TREE_ROW_HEIGHT };
+}
@@ -0,0 +1,173 @@
+import { matchFaces, ModelLoadError, DEFAULT_MATCH_THRESHOLDS, type FacePosition, type MatchStrategy, type MatchThresholds } from './faceDetection';
+import type { AnalyzedFace } from './photoQuality';
+import type { FaceRecognizer, RecognizedFace } from './faceRecognizer';
+
+/**
+ * A face the fake "sees". The descriptor is either explicit or a seed string;
+ * the same seed always yields the same descriptor, different seeds never match.
+ */
+export interface ScriptedFace {
+    position: FacePosition;
+    descriptor: number[] | string;
+}
+
+export interface RecognizerScript {
+    frames: ScriptedFace[][]; // One entry per recognizeFrame call, looped
+    photoFaces?: ScriptedFace[][]; // Faces in successive enrollment photos, looped; default derives one from the pixels
+    loadError?: string; // Make loadModels fail like a missing model file
+}
+
+const DESCRIPTOR_LENGTH = 128;
+
+/**
+ * Deterministic unit-length descriptor for a seed (FNV-1a hash feeding mulberry32)
+ */
+export function descriptorForSeed(seed: string): number[] {
+    let state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < DESCRIPTOR_LENGTH; i++) {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), state | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        values.push(((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5);
+    }
+
+    const length = Math.hypot(...values);
+    return values.map(value => value / length);
+}
+
+function resolveDescriptor(face: ScriptedFace): number[] {
+    return typeof face.descriptor === 'string' ? descriptorForSeed(face.descriptor) : face.descriptor;
+}
+
+/**
+ * Seed from a downscaled copy of the image, so the same photo always gets the same descriptor
+ */
+function pixelSeed(image: CanvasImageSource): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = 16;
+    canvas.height = 16;
+    const context = canvas.getContext('2d', { willReadFrequently: true })!;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return Array.from(context.getImageData(0, 0, canvas.width, canvas.height).data).join(',');
+}
+
+const PLACEHOLDER_THUMBNAIL = 'data:image/svg+xml,' + encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" fill="#d2d2d7"/><circle cx="32" cy="26" r="12" fill="#86868b"/><rect x="14" y="42" width="36" height="18" rx="9" fill="#86868b"/></svg>'
+);
+
+/**
+ * Two visitors: the first sways gently in the middle of the frame,
+ * the second steps in and out on the left. Enroll any two photos to have them recognized.
+ */
+export const DEMO_SCRIPT: RecognizerScript = {
+    frames: Array.from({ length: 100 }, (_, i) => {
+        const faces: ScriptedFace[] = [{
+            position: { x: 60 + Math.sin(i / 8) * 5, y: 25, width: 20, height: 32 },
+            descriptor: 'demo-visitor-1',
+        }];
+        if (i >= 40 && i < 80) {
+            faces.push({ position: { x: 30, y: 30, width: 16, height: 26 }, descriptor: 'demo-visitor-2' });
+        }
+        return faces;
+    }),
+    photoFaces: [
+        [{ position: { x: 70, y: 20, width: 40, height: 55 }, descriptor: 'demo-visitor-1' }],
+        [{ position: { x: 70, y: 20, width: 40, height: 55 }, descriptor: 'demo-visitor-2' }],
+    ],
+};
+
+/**
+ * Fake backend that plays back a script instead of running models.
+ * Matching uses the real matcher, so thresholds and the gallery behave as in production.
+ */
+export class ScriptedRecognizer implements FaceRecognizer {
+    private gallery: Array<{ id: number; descriptors: number[][] }> = [];
+    private thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS;
+    private strategy: MatchStrategy = 'best';
+    private frameIndex = 0;
+    private photoIndex = 0;
+    private readonly script: RecognizerScript;
+
+    constructor(script: RecognizerScript) {
+        this.script = script;
+    }
+
+    async loadModels(): Promise<void> {
+        if (this.script.loadError) {
+            throw new ModelLoadError(this.script.loadError, [this.script.loadError]);
+        }
+    }
+
+    setGallery(gallery: Array<{ id: number; descriptors: number[][] }>, thresholds: MatchThresholds) {
+        this.gallery = gallery;
+        this.thresholds = thresholds;
+    }
+
+    setDetectorOptions() {
+        // Scripted faces are always "detected"
+    }
+
+    setMatchStrategy(strategy: MatchStrategy) {
+        this.strategy = strategy;
+    }
+
+    async recognizeFrame(): Promise<RecognizedFace[]> {
+        const { frames } = this.script;
+        if (frames.length === 0) return [];
+
+        const faces = frames[this.frameIndex++ % frames.length];
+        const descriptors = faces.map(resolveDescriptor);
+        const matches = matchFaces(descriptors.map(d => new Float32Array(d)), this.gallery, this.strategy, this.thresholds);
+
+        return faces.map((face, i) => ({
+            position: face.position,
+            personId: matches[i]?.personId ?? null,
+            similarity: matches[i]?.similarity ?? 0,
+            descriptor: matches[i] ? undefined : descriptors[i],
+        }));
+    }
+
+    private nextPhotoFaces(image: CanvasImageSource): ScriptedFace[] {
+        const { photoFaces } = this.script;
+        if (photoFaces && photoFaces.length > 0) {
+            return photoFaces[this.photoIndex++ % photoFaces.length];
+        }
+        return [{ position: { x: 75, y: 20, width: 50, height: 60 }, descriptor: pixelSeed(image) }];
+    }
+
+    async analyzePhoto(image: HTMLImageElement): Promise<AnalyzedFace[]> {
+        return this.nextPhotoFaces(image).map(face => ({
+            box: {
+                x: face.position.x - face.position.width,
+                y: face.position.y,
+                width: face.position.width,
+                height: face.position.height,
+            },
+            thumbnailUrl: PLACEHOLDER_THUMBNAIL,
+            descriptor: resolveDescriptor(face),
+            checks: [{ id: 'confidence', label: 'Detection confidence', value: 'scripted', level: 'pass' }],
+            verdict: 'pass',
+        }));
+    }
+
+    async extractDescriptor(photo: Blob): Promise<number[] | null> {
+        try {
+            const bitmap = await createImageBitmap(photo);
+            const faces = this.nextPhotoFaces(bitmap);
+            bitmap.close();
+            return faces.length > 0 ? resolveDescriptor(faces[0]) : null;
+        } catch (error) {
+            console.error('Error loading image for face extraction:', error);
+            return null;
+        }
+    }
+
+    dispose() {
+        this.gallery = [];
+    }
+}
@@ -0,0 +1,377 @@
+import type { OverlayPoint } from './overlayLayout';
+
+/**
+ * Head-mounted viewing for Ray-Ban mode: a side-by-side stereo view for phone-in-headset viewers,
+ * or a WebXR immersive session where the browser offers one.
+ */
+export interface StereoSettings {
+    ipdMm: number; // Distance between the wearer's pupils
+    screenWidthMm: number; // Physical width of the phone screen held sideways
+    lensK1: number; // Barrel pre-distortion that cancels the headset lenses' pincushion
+    lensK2: number; // Extra correction towards the edges of the lens
+}
+
+export const DEFAULT_STEREO_SETTINGS: StereoSettings = {
+    ipdMm: 63,
+    screenWidthMm: 135,
+    lensK1: 0.22,
+    lensK2: 0.1,
+};
+
+/** One person label drawn into the stereo view, positioned in percentages of the video frame */
+export interface StereoLabel {
+    position: OverlayPoint;
+    name: string;
+    relation: string;
+    summary?: string;
+}
+
+// Minimal WebXR surface; the DOM typings do not include it yet
+interface XRViewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface XRView {
+    eye: 'left' | 'right' | 'none';
+}
+
+interface XRFrame {
+    getViewerPose(space: unknown): { views: XRView[] } | null;
+}
+
+interface XRWebGLLayer {
+    framebuffer: WebGLFramebuffer | null;
+    getViewport(view: XRView): XRViewport | null;
+}
+
+interface XRSession extends EventTarget {
+    renderState: { baseLayer?: XRWebGLLayer };
+    updateRenderState(state: { baseLayer: XRWebGLLayer }): Promise<void> | void;
+    requestReferenceSpace(type: 'viewer' | 'local'): Promise<unknown>;
+    requestAnimationFrame(callback: (time: number, frame: XRFrame) => void): number;
+    end(): Promise<void>;
+}
+
+interface XRSystem {
+    isSessionSupported(mode: 'immersive-vr'): Promise<boolean>;
+    requestSession(mode: 'immersive-vr', options?: { optionalFeatures?: string[] }): Promise<XRSession>;
+}
+
+type XRWebGLLayerConstructor = new (session: XRSession, gl: WebGLRenderingContext) => XRWebGLLayer;
+
+function xrSystem(): XRSystem | undefined {
+    return (navigator as Navigator & { xr?: XRSystem }).xr;
+}
+
+/**
+ * Whether a WebXR headset session can be started; otherwise Ray-Ban mode uses split-screen
+ */
+export async function immersiveSupported(): Promise<boolean> {
+    const xr = xrSystem();
+    if (!xr || !window.isSecureContext) return false;
+    try {
+        return await xr.isSessionSupported('immersive-vr');
+    } catch {
+        return false;
+    }
+}
+
+const VERTEX_SHADER = `
+attribute vec2 aPosition;
+varying vec2 vUv;
+void main() {
+    vUv = aPosition * 0.5 + 0.5;
+    gl_Position = vec4(aPosition, 0.0, 1.0);
+}`;
+
+// Barrel-distorts each eye around its lens centre, then composites the labels over the camera
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec2 vUv;
+uniform sampler2D uVideo;
+uniform sampler2D uOverlay;
+uniform vec2 uLensCenter;
+uniform float uAspect;
+uniform vec2 uLensK;
+uniform vec2 uVideoScale;
+uniform bool uMirror;
+void main() {
+    vec2 d = (vUv - uLensCenter) * vec2(uAspect, 1.0);
+    float r2 = dot(d, d);
+    d *= 1.0 + uLensK.x * r2 + uLensK.y * r2 * r2;
+    vec2 uv = d / vec2(uAspect, 1.0) + 0.5;
+    if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+        gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+        return;
+    }
+    vec2 frameUv = (uv - 0.5) * uVideoScale + 0.5;
+    vec4 overlay = texture2D(uOverlay, frameUv);
+    vec4 video = texture2D(uVideo, vec2(uMirror ? 1.0 - frameUv.x : frameUv.x, frameUv.y));
+    gl_FragColor = vec4(mix(video.rgb, overlay.rgb, overlay.a), 1.0);
+}`;
+
+// Labels are drawn at this width and scaled with the video
+const OVERLAY_WIDTH = 1280;
+
+interface Eye {
+    viewport: XRViewport;
+    lensCenter: [number, number];
+    lensK: [number, number];
+}
+
+/**
+ * Renders the camera feed and person labels once per eye with WebGL
+ */
+export class StereoRenderer {
+    private readonly canvas: HTMLCanvasElement;
+    private readonly gl: WebGLRenderingContext;
+    private readonly program: WebGLProgram;
+    private readonly videoTexture: WebGLTexture;
+    private readonly overlayTexture: WebGLTexture;
+    private readonly overlay = document.createElement('canvas');
+    private session: XRSession | null = null;
+
+    constructor(canvas: HTMLCanvasElement) {
+        const gl = canvas.getContext('webgl', { alpha: false, antialias: false, xrCompatible: true } as WebGLContextAttributes);
+        if (!gl) throw new Error('WebGL is not available for the stereo view');
+        this.canvas = canvas;
+        this.gl = gl;
+        this.program = this.createProgram();
+        this.videoTexture = this.createTexture();
+        this.overlayTexture = this.createTexture();
+
+        const quad = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+        const position = gl.getAttribLocation(this.program, 'aPosition');
+        gl.enableVertexAttribArray(position);
+        gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+        gl.useProgram(this.program);
+        gl.uniform1i(gl.getUniformLocation(this.program, 'uVideo'), 0);
+        gl.uniform1i(gl.getUniformLocation(this.program, 'uOverlay'), 1);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    }
+
+    get immersive(): boolean {
+        return this.session !== null;
+    }
+
+    /**
+     * Draw both eyes side by side, each centred on its lens and pre-distorted for it
+     */
+    renderSplitScreen(video: HTMLVideoElement, labels: StereoLabel[], settings: StereoSettings, mirror: boolean) {
+        const dpr = window.devicePixelRatio || 1;
+        const width = Math.round(this.canvas.clientWidth * dpr);
+        const height = Math.round(this.canvas.clientHeight * dpr);
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+        }
+
+        // Lenses sit IPD apart around the screen centre; as a fraction of one half of the screen
+        const lensOffset = Math.min(settings.ipdMm / settings.screenWidthMm, 1);
+        const half = Math.floor(width / 2);
+        const lensK: [number, number] = [settings.lensK1, settings.lensK2];
+
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+        this.draw(video, labels, mirror, [
+            { viewport: { x: 0, y: 0, width: half, height }, lensCenter: [1 - lensOffset, 0.5], lensK },
+            { viewport: { x: half, y: 0, width: width - half, height }, lensCenter: [lensOffset, 0.5], lensK },
+        ]);
+    }
+
+    /**
+     * Hand rendering to the headset. The browser corrects for its own lenses, so nothing is pre-distorted.
+     * `onFrame` runs before every headset frame and returns what to draw; `onEnd` runs however the session ends.
+     */
+    async enterImmersive(
+        video: HTMLVideoElement,
+        onFrame: () => { labels: StereoLabel[]; mirror: boolean },
+        onEnd: () => void
+    ): Promise<void> {
+        const xr = xrSystem();
+        const Layer = (window as Window & { XRWebGLLayer?: XRWebGLLayerConstructor }).XRWebGLLayer;
+        if (!xr || !Layer) throw new Error('WebXR is not available');
+
+        const gl = this.gl as WebGLRenderingContext & { makeXRCompatible?: () => Promise<void> };
+        await gl.makeXRCompatible?.();
+        const session = await xr.requestSession('immersive-vr');
+        this.session = session;
+        session.addEventListener('end', () => {
+            this.session = null;
+            onEnd();
+        });
+
+        try {
+            const layer = new Layer(session, this.gl);
+            await session.updateRenderState({ baseLayer: layer });
+            const space = await session.requestReferenceSpace('viewer');
+
+            const renderFrame = (_time: number, frame: XRFrame) => {
+                if (this.session !== session) return;
+                session.requestAnimationFrame(renderFrame);
+                const pose = frame.getViewerPose(space);
+                if (!pose) return;
+
+                const { labels, mirror } = onFrame();
+                this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, layer.framebuffer);
+                this.draw(video, labels, mirror, pose.views.flatMap(view => {
+                    const viewport = layer.getViewport(view);
+                    return viewport ? [{ viewport, lensCenter: [0.5, 0.5], lensK: [0, 0] } satisfies Eye] : [];
+                }));
+            };
+            session.requestAnimationFrame(renderFrame);
+        } catch (error) {
+            await session.end();
+            throw error;
+        }
+    }
+
+    exitImmersive() {
+        this.session?.end().catch(error => console.error('Error ending headset session:', error));
+    }
+
+    dispose() {
+        this.exitImmersive();
+        this.gl.deleteTexture(this.videoTexture);
+        this.gl.deleteTexture(this.overlayTexture);
+        this.gl.deleteProgram(this.program);
+    }
+
+    private draw(video: HTMLVideoElement, labels: StereoLabel[], mirror: boolean, eyes: Eye[]) {
+        const gl = this.gl;
+        gl.clearColor(0, 0, 0, 1);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+        // Labels are drawn in video-frame coordinates so they stay on the faces in both eyes
+        this.overlay.width = OVERLAY_WIDTH;
+        this.overlay.height = Math.round(OVERLAY_WIDTH * video.videoHeight / video.videoWidth);
+        drawStereoLabels(this.overlay.getContext('2d')!, labels);
+
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, this.videoTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB, gl.RGB, gl.UNSIGNED_BYTE, video);
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, this.overlayTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, this.overlay);
+
+        const uniform = (name: string) => gl.getUniformLocation(this.program, name);
+        const videoAspect = video.videoWidth / video.videoHeight;
+        gl.uniform1i(uniform('uMirror'), mirror ? 1 : 0);
+
+        for (const eye of eyes) {
+            const { x, y, width, height } = eye.viewport;
+            const eyeAspect = width / height;
+            // Cover the eye like object-fit: cover, cropping the longer side of the video
+            const videoScale = videoAspect > eyeAspect ? [eyeAspect / videoAspect, 1] : [1, videoAspect / eyeAspect];
+
+            gl.viewport(x, y, width, height);
+            gl.uniform2f(uniform('uLensCenter'), eye.lensCenter[0], eye.lensCenter[1]);
+            gl.uniform1f(uniform('uAspect'), eyeAspect);
+            gl.uniform2f(uniform('uLensK'), eye.lensK[0], eye.lensK[1]);
+            gl.uniform2f(uniform('uVideoScale'), videoScale[0], videoScale[1]);
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        }
+    }
+
+    private createProgram(): WebGLProgram {
+        const gl = this.gl;
+        const compile = (type: number, source: string) => {
+            const shader = gl.createShader(type)!;
+            gl.shaderSource(shader, source);
+            gl.compileShader(shader);
+            if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+                throw new Error(`Stereo shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+            }
+            return shader;
+        };
+
+        const program = gl.createProgram()!;
+        gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+        gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Stereo shader failed to link: ${gl.getProgramInfoLog(program)}`);
+        }
+        return program;
+    }
+
+    private createTexture(): WebGLTexture {
+        const gl = this.gl;
+        const texture = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        // Video frames are rarely a power of two
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        return texture;
+    }
+}
+
+function pill(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, font: string, color: string): number {
+    ctx.font = font;
+    const size = parseInt(font.match(/(\d+)px/)![1], 10);
+    const width = ctx.measureText(text).width + size * 1.6;
+    const height = size * 1.9;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.roundRect(x, y, width, height, height / 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x + size * 0.8, y + height / 2);
+    return width;
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const next = line ? `${line} ${word}` : word;
+        if (ctx.measureText(next).width <= maxWidth || !line) {
+            line = next;
+            continue;
+        }
+        lines.push(line);
+        line = word;
+        if (lines.length === maxLines) break;
+    }
+    if (lines.length < maxLines && line) lines.push(line);
+    else if (lines.length === maxLines) lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s*\S*$/, '')}…`;
+    return lines;
+}
+
+/**
+ * Canvas version of the AR person labels: name and relation pills over a conversation bubble
+ */
+function drawStereoLabels(ctx: CanvasRenderingContext2D, labels: StereoLabel[]) {
+    const { width, height } = ctx.canvas;
+    ctx.clearRect(0, 0, width, height);
+    const font = 'system-ui, -apple-system, sans-serif';
+
+    for (const label of labels) {
+        const x = (label.position.x / 100) * width;
+        const y = (label.position.y / 100) * height;
+
+        const nameWidth = pill(ctx, label.name, x, y, `700 28px ${font}`, '#14b8a6');
+        pill(ctx, label.relation, x + nameWidth + 10, y + 6, `600 18px ${font}`, '#0ea5e9');
+
+        if (!label.summary) continue;
+        ctx.font = `500 20px ${font}`;
+        const lines = wrapLines(ctx, label.summary, 360, 3);
+        const top = y + 66;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+        ctx.beginPath();
+        ctx.roundRect(x, top, 400, lines.length * 28 + 24, 18);
+        ctx.fill();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+        ctx.textBaseline = 'top';
+        lines.forEach((text, index) => ctx.fillText(text, x + 20, top + 12 + index * 28));
+    }
+}
@@ -0,0 +1,83 @@
+import { db } from '../db/database';
+import { compareFaces, type FacePosition } from './faceDetection';
+
+// Similarity needed to count a new sighting as the same unknown face
+const CLUSTER_THRESHOLD = 0.45;
+// While a face stays in view, store at most one snapshot per cluster in this window
+const SIGHTING_COOLDOWN_MS = 15_000;
+// Keep the inbox small; older sightings beyond this are dropped
+const MAX_SIGHTINGS_PER_CLUSTER = 12;
+
+/**
+ * Store an unrecognized face, grouping it with earlier sightings that look alike
+ */
+export async function recordUnknownSighting(descriptor: number[], snapshotBlob: Blob): Promise<void> {
+    const now = new Date();
+
+    await db.transaction('rw', [db.unknownClusters, db.unknownSightings, db.unknownSightingLog], async () => {
+        const clusters = await db.unknownClusters.toArray();
+
+        let best: { id: number; similarity: number } | null = null;
+        for (const cluster of clusters) {
+            const similarity = compareFaces(descriptor, cluster.centroid);
+            if (similarity >= CLUSTER_THRESHOLD && (!best || similarity > best.similarity)) {
+                best = { id: cluster.id!, similarity };
+            }
+        }
+
+        if (!best) {
+            const clusterId = await db.unknownClusters.add({
+                centroid: descriptor,
+                sightingCount: 1,
+                firstSeenAt: now,
+                lastSeenAt: now
+            }) as number;
+            await db.unknownSightings.add({ clusterId, descriptor, snapshotBlob, seenAt: now });
+            await db.unknownSightingLog.add({ seenAt: now });
+            return;
+        }
+
+        const cluster = clusters.find(c => c.id === best.id)!;
+        if (now.getTime() - cluster.lastSeenAt.getTime() < SIGHTING_COOLDOWN_MS) {
+            await db.unknownClusters.update(best.id, { lastSeenAt: now });
+            return;
+        }
+
+        // Fold the new descriptor into the running average
+        const count = cluster.sightingCount + 1;
+        const centroid = cluster.centroid.map((value, i) => value + (descriptor[i] - value) / count);
+        await db.unknownClusters.update(best.id, { centroid, sightingCount: count, lastSeenAt: now });
+        await db.unknownSightings.add({ clusterId: best.id, descriptor, snapshotBlob, seenAt: now });
+        // Logged for analytics too, which keeps counting after the inbox trims or clears these
+        await db.unknownSightingLog.add({ seenAt: now });
+
+        const stored = await db.unknownSightings.where('clusterId').equals(best.id).sortBy('seenAt');
+        const excess = stored.slice(0, Math.max(0, stored.length - MAX_SIGHTINGS_PER_CLUSTER));
+        await db.unknownSightings.bulkDelete(excess.map(sighting => sighting.id!));
+    });
+}
+
+/**
+ * Crop a face (with some margin) out of the current video frame as a JPEG
+ */
+export function cropFaceSnapshot(video: HTMLVideoElement, position: FacePosition): Promise<Blob | null> {
+    const videoWidth = video.videoWidth;
+    const videoHeight = video.videoHeight;
+    if (!videoWidth || !videoHeight) return Promise.resolve(null);
+
+    // Positions are percentages, with x at the right edge of the face box
+    const width = (position.width / 100) * videoWidth;
+    const height = (position.height / 100) * videoHeight;
+    const margin = Math.max(width, height) * 0.3;
+    const left = Math.max(0, (position.x / 100) * videoWidth - width - margin);
+    const top = Math.max(0, (position.y / 100) * videoHeight - margin);
+    const cropWidth = Math.min(videoWidth - left, width + margin * 2);
+    const cropHeight = Math.min(videoHeight - top, height + margin * 2);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cropWidth;
+    canvas.height = cropHeight;
+    canvas.getContext('2d')!.drawImage(video, left, top, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+}
@@ -0,0 +1,130 @@
+// Longest name/greeting recording we keep; it is played every time the person arrives
+export const MAX_CLIP_SECONDS = 10;
+
+/**
+ * Record from the microphone until stop() is called or MAX_CLIP_SECONDS pass
+ */
+export async function startClipRecording(): Promise<{ stop: () => void; result: Promise<Blob> }> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+
+    const result = new Promise<Blob>((resolve, reject) => {
+        recorder.ondataavailable = (event) => chunks.push(event.data);
+        recorder.onstop = () => {
+            stream.getTracks().forEach(track => track.stop());
+            resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.onerror = () => {
+            stream.getTracks().forEach(track => track.stop());
+            reject(new Error('Recording failed'));
+        };
+    });
+
+    recorder.start();
+    const timeout = setTimeout(() => recorder.state === 'recording' && recorder.stop(), MAX_CLIP_SECONDS * 1000);
+
+    return {
+        stop: () => {
+            clearTimeout(timeout);
+            if (recorder.state === 'recording') recorder.stop();
+        },
+        result,
+    };
+}
+
+async function decodeClip(blob: Blob): Promise<AudioBuffer> {
+    const context = new AudioContext();
+    try {
+        return await context.decodeAudioData(await blob.arrayBuffer());
+    } finally {
+        context.close();
+    }
+}
+
+export async function clipDuration(blob: Blob): Promise<number> {
+    return (await decodeClip(blob)).duration;
+}
+
+/**
+ * 16-bit mono WAV, which every browser can play back
+ */
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // PCM header size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true); // block align
+    view.setUint16(34, 16, true); // bits per sample
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+
+    samples.forEach((sample, i) => {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    });
+
+    return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/**
+ * Cut a clip down to [start, end] seconds, mixed down to mono
+ */
+export async function trimClip(blob: Blob, start: number, end: number): Promise<Blob> {
+    const audio = await decodeClip(blob);
+    const from = Math.max(0, Math.floor(start * audio.sampleRate));
+    const to = Math.min(audio.length, Math.ceil(end * audio.sampleRate));
+
+    const mono = new Float32Array(Math.max(0, to - from));
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+        const data = audio.getChannelData(channel).subarray(from, to);
+        data.forEach((sample, i) => {
+            mono[i] += sample / audio.numberOfChannels;
+        });
+    }
+
+    return encodeWav(mono, audio.sampleRate);
+}
+
+/**
+ * Play a clip once; resolves when it has finished, failed to play or been stopped through the signal
+ */
+export function playClip(blob: Blob, volume = 1, signal?: AbortSignal): Promise<void> {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.volume = volume;
+
+    return new Promise((resolve) => {
+        const done = () => {
+            signal?.removeEventListener('abort', stop);
+            URL.revokeObjectURL(url);
+            resolve();
+        };
+        const stop = () => {
+            audio.pause();
+            done();
+        };
+        if (signal?.aborted) {
+            done();
+            return;
+        }
+        signal?.addEventListener('abort', stop);
+        audio.onended = done;
+        audio.onerror = done;
+        audio.play().catch((error) => {
+            console.error('Error playing voice clip:', error);
+            done();
+        });
+    });
+}
@@ -0,0 +1,118 @@
+import * as faceapi from '@vladmandic/face-api';
+import {
+    loadFaceDetectionModels,
+    detectAllFacesWithDescriptors,
+    detectAllFaceBoxes,
+    matchFaces,
+    ModelLoadError,
+    DEFAULT_MATCH_THRESHOLDS,
+    DEFAULT_DETECTOR_OPTIONS,
+    type MatchStrategy
+} from '../services/faceDetection';
+import { FaceTracker } from '../services/faceTracker';
+import type { RecognizedFace } from '../services/faceRecognizer';
+import type { FaceWorkerRequest, FaceWorkerResponse } from './protocol';
+
+// face-api cannot detect a worker environment on its own; give it OffscreenCanvas
+faceapi.env.monkeyPatch({
+    Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+    createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+    ImageData,
+    fetch: (url, init) => fetch(url, init),
+});
+
+let gallery: Array<{ id: number; descriptors: number[][] }> = [];
+let thresholds = DEFAULT_MATCH_THRESHOLDS;
+let detectorOptions = DEFAULT_DETECTOR_OPTIONS;
+let strategy: MatchStrategy = 'best';
+let canvas: OffscreenCanvas | null = null;
+const tracker = new FaceTracker();
+
+function respond(message: FaceWorkerResponse) {
+    self.postMessage(message);
+}
+
+/**
+ * Copy the transferred frame into pixels face-api can turn into a tensor
+ */
+function readPixels(frame: ImageBitmap): ImageData {
+    if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+        canvas = new OffscreenCanvas(frame.width, frame.height);
+    }
+    const context = canvas.getContext('2d', { willReadFrequently: true })!;
+    context.drawImage(frame, 0, 0);
+    frame.close();
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Detect, describe and match every face in the frame
+ */
+async function recognizeAll(pixels: ImageData): Promise<RecognizedFace[]> {
+    const results = await detectAllFacesWithDescriptors(pixels, detectorOptions);
+    const described = results.filter(result => result.descriptor !== null);
+    const matches = matchFaces(described.map(result => result.descriptor!), gallery, strategy, thresholds);
+
+    return described.map((result, i) => ({
+        position: result.position,
+        personId: matches[i]?.personId ?? null,
+        similarity: matches[i]?.similarity ?? 0,
+        descriptor: matches[i] ? undefined : Array.from(result.descriptor!),
+    }));
+}
+
+self.onmessage = async (event: MessageEvent<FaceWorkerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+        case 'init':
+            try {
+                await loadFaceDetectionModels();
+                respond({ type: 'ready' });
+            } catch (error) {
+                const modelError = error instanceof ModelLoadError ? error : null;
+                respond({
+                    type: 'error',
+                    message: modelError?.summary ?? (error as Error).message,
+                    problems: modelError?.problems ?? [],
+                });
+            }
+            break;
+
+        case 'setGallery':
+            gallery = request.gallery;
+            thresholds = request.thresholds;
+            tracker.reset();
+            break;
+
+        case 'setDetectorOptions':
+            detectorOptions = request.options;
+            tracker.reset();
+            break;
+
+        case 'setMatchStrategy':
+            strategy = request.strategy;
+            tracker.reset();
+            break;
+
+        case 'detect': {
+            const now = performance.now();
+
+            // Always answer, so the frame is never left waiting on the main thread
+            let faces: RecognizedFace[] = [];
+            try {
+                const pixels = readPixels(request.frame);
+                // Follow already recognized faces with detection alone; run the full chain only
+                // when a face is new, was lost, or is due for a recheck
+                faces = tracker.recognitionDue(now)
+                    ? tracker.recognized(await recognizeAll(pixels), now)
+                    : tracker.follow(await detectAllFaceBoxes(pixels, detectorOptions), now);
+            } catch (error) {
+                console.error('Error detecting faces in worker:', error);
+            }
+
+            respond({ type: 'result', frameId: request.frameId, faces });
+            break;
+        }
+    }
+};
@@ -0,0 +1,16 @@
+import type { DetectorOptions, MatchStrategy, MatchThresholds } from '../services/faceDetection';
+import type { RecognizedFace } from '../services/faceRecognizer';
+
+// Messages exchanged between the AR viewer and the face recognition worker
+
+export type FaceWorkerRequest =
+    | { type: 'init' }
+    | { type: 'setGallery'; gallery: Array<{ id: number; descriptors: number[][] }>; thresholds: MatchThresholds }
+    | { type: 'setDetectorOptions'; options: DetectorOptions }
+    | { type: 'setMatchStrategy'; strategy: MatchStrategy }
+    | { type: 'detect'; frameId: number; frame: ImageBitmap };
+
+export type FaceWorkerResponse =
+    | { type: 'ready' }
+    | { type: 'error'; message: string; problems: string[] }
+    | { type: 'result'; frameId: number; faces: RecognizedFace[] };